@@ -1,9 +1,39 @@
+import { syntaxTree } from "@codemirror/language";
+import { Extension, Range, StateEffect } from "@codemirror/state";
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	ViewPlugin,
+	ViewUpdate,
+	WidgetType,
+} from "@codemirror/view";
 import {
 	App,
+	CachedMetadata,
+	Component,
+	Editor,
+	FileView,
+	FuzzyMatch,
+	FuzzySuggestModal,
+	MarkdownView,
+	Menu,
+	Modal,
+	Notice,
 	Plugin,
 	PluginSettingTab,
 	Setting,
+	TAbstractFile,
 	TFile,
+	TFolder,
+	TextComponent,
+	View,
+	Workspace,
+	WorkspaceLeaf,
+	editorInfoField,
+	getAllTags,
+	getIconIds,
+	parseFrontMatterAliases,
 	setIcon,
 } from "obsidian";
 
@@ -19,10 +49,20 @@ interface NotebookNavigatorPlugin {
 	externalIconController?: {
 		iconService?: {
 			renderIcon?: (container: HTMLElement, iconId: string) => void;
+			getAllProviders?: () => NotebookNavigatorIconProvider[];
 		};
 	};
 }
 
+/**
+ * An icon provider registered with Notebook Navigator's icon service (e.g. Phosphor)
+ */
+interface NotebookNavigatorIconProvider {
+	id: string;
+	name?: string;
+	getAll?: () => { id: string; displayName?: string; keywords?: string[] }[];
+}
+
 /**
  * Extended App interface with plugins property
  * The plugins property is not in the official typings but exists at runtime
@@ -31,43 +71,587 @@ interface AppWithPlugins extends App {
 	plugins?: {
 		plugins?: Record<string, Plugin>;
 	};
+	internalPlugins?: {
+		getPluginById?: (id: string) => { instance?: unknown } | null;
+	};
+}
+
+/**
+ * A suggest modal or popover prototype whose rendering we hook
+ * renderSuggestion is public API on SuggestModal/EditorSuggest; the value shape is internal
+ */
+interface SuggestionRenderer {
+	renderSuggestion(value: unknown, el: HTMLElement): void;
+}
+
+/**
+ * Workspace with its editor suggest manager
+ * editorSuggest is not in the official typings but exists at runtime
+ */
+interface WorkspaceWithEditorSuggest extends Workspace {
+	editorSuggest?: {
+		suggests?: EditorSuggestLike[];
+	};
+}
+
+/**
+ * An editor suggest registered with the workspace (built-in or from a plugin)
+ * suggestManager is not in the official typings; at runtime only Obsidian's link suggester has one
+ */
+interface EditorSuggestLike extends SuggestionRenderer {
+	suggestManager?: {
+		getSuggestions?: unknown;
+	};
+}
+
+/**
+ * A node in the graph view's renderer; its id is the file path
+ * getFillColor is not in the official typings but exists at runtime
+ */
+interface GraphNode {
+	id: string;
+	getFillColor?: () => { a: number; rgb: number };
+}
+
+/**
+ * A property we replaced, with the own value it shadowed
+ * `undefined` means the object had no own value, only the one inherited from its prototype
+ */
+interface OverriddenProperty<T> {
+	override: T;
+	original: T | undefined;
+}
+
+/**
+ * Replace a method on an object, remembering what to put back
+ */
+function overrideProperty<T extends object, K extends keyof T>(
+	target: T,
+	key: K,
+	override: T[K]
+): OverriddenProperty<T[K]> {
+	const original = Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+	target[key] = override;
+	return { override, original };
+}
+
+/**
+ * Undo overrideProperty, unless someone has replaced our override since
+ */
+function restoreProperty<T extends object, K extends keyof T>(
+	target: T,
+	key: K,
+	property: OverriddenProperty<T[K]>
+): void {
+	if (target[key] !== property.override) return;
+
+	if (property.original === undefined) {
+		delete target[key];
+	} else {
+		target[key] = property.original;
+	}
+}
+
+/**
+ * Graph view (global or local) renderer
+ * renderer is not in the official typings but exists at runtime
+ */
+interface GraphRenderer {
+	nodes?: GraphNode[];
+	setData?: (...args: unknown[]) => void;
+	changed?: () => void;
+}
+
+/**
+ * A node on a canvas; file nodes carry the embedded file
+ * canvas and its nodes are not in the official typings but exist at runtime
+ */
+interface CanvasNode {
+	file?: TFile;
+	nodeEl?: HTMLElement;
+}
+
+/**
+ * Canvas view with its canvas model
+ */
+interface CanvasView extends View {
+	canvas?: {
+		nodes?: Map<string, CanvasNode>;
+	};
+}
+
+/**
+ * An entry in the core Bookmarks plugin
+ * Bookmark items are not in the official typings but exist at runtime
+ */
+interface BookmarkItem {
+	type: string;
+	title?: string;
+	path?: string;
+	subpath?: string;
+	items?: BookmarkItem[];
+}
+
+/**
+ * Workspace leaf with its tab header element
+ * tabHeaderEl is not in the official typings but exists at runtime
+ */
+interface WorkspaceLeafWithTabHeader extends WorkspaceLeaf {
+	tabHeaderEl?: HTMLElement;
+}
+
+/**
+ * Core Quick Switcher plugin instance
+ * QuickSwitcherModal is not in the official typings but exists at runtime
+ */
+interface QuickSwitcherPluginInstance {
+	QuickSwitcherModal?: { prototype: SuggestionRenderer };
 }
 
 // ============================================================================
 // Settings
 // ============================================================================
 
+/**
+ * How a style rule selects files
+ */
+type StyleRuleMatch = "tag" | "folder" | "glob" | "regex";
+
+/**
+ * A settings-defined rule that styles every file it matches
+ * Empty color/icon strings mean the rule does not provide that value
+ */
+interface StyleRule {
+	match: StyleRuleMatch;
+	pattern: string;
+	color: string;
+	icon: string;
+}
+
+/**
+ * Maps a frontmatter property value to a style
+ * e.g. `status: done` -> green check icon
+ */
+interface ValueMapping {
+	property: string;
+	value: string;
+	color: string;
+	icon: string;
+}
+
+/**
+ * A named palette color that frontmatter can refer to, e.g. `color: work`
+ * The color may be any CSS color, including theme variables like `var(--color-red)`
+ */
+interface PaletteColor {
+	name: string;
+	color: string;
+}
+
+/**
+ * UI locations that can be styled
+ */
+type DecoratorLocation =
+	| "fileExplorer"
+	| "tabHeader"
+	| "noteTitle"
+	| "quickSwitcher"
+	| "linkSuggester"
+	| "backlinks"
+	| "search"
+	| "outgoingLinks"
+	| "bookmarks"
+	| "recentFiles"
+	| "bases"
+	| "canvas"
+	| "editorLinks";
+
+/**
+ * How a file's color is shown
+ * - text: colored file name (default)
+ * - dot: small colored dot before the name
+ * - bar: colored left border
+ * - pill: tinted background behind the name
+ * - underline: colored accent underline (tab headers only)
+ */
+type DisplayMode = "text" | "dot" | "bar" | "pill" | "underline";
+
+const DISPLAY_MODES: Record<DisplayMode, string> = {
+	text: "Text color",
+	dot: "Dot",
+	bar: "Left bar",
+	pill: "Background pill",
+	underline: "Accent underline",
+};
+
 interface FrontmatterDecoratorSettings {
 	colorField: string;
 	iconField: string;
+	colorLightField: string;
+	colorDarkField: string;
+	backgroundField: string;
+	boldField: string;
+	italicField: string;
+	strikethroughField: string;
+	opacityField: string;
+	classField: string;
+	palette: PaletteColor[];
+	recentColors: string[];
+	contrastCorrection: boolean;
+	minContrastRatio: number;
+	folderNoteName: string;
+	inheritFolderStyle: boolean;
+	parentLinkFields: string[];
+	parentLinkDepth: number;
+	valueMappings: ValueMapping[];
+	rules: StyleRule[];
 	enableFileExplorer: boolean;
+	enableFolders: boolean;
 	enableTabHeader: boolean;
+	enableNoteTitles: boolean;
 	enableQuickSwitcher: boolean;
 	enableSuggester: boolean;
 	enableBacklinks: boolean;
+	enableSearch: boolean;
+	enableOutgoingLinks: boolean;
+	enableBookmarks: boolean;
+	enableRecentFiles: boolean;
 	enableBases: boolean;
+	enableGraph: boolean;
+	enableCanvas: boolean;
 	enableEditorLinks: boolean;
+	showEditorLinkIcons: boolean;
+	canvasNodeBorder: boolean;
+	displayModes: Record<DecoratorLocation, DisplayMode>;
 }
 
 const DEFAULT_SETTINGS: FrontmatterDecoratorSettings = {
 	colorField: "color",
 	iconField: "icon",
+	colorLightField: "color-light",
+	colorDarkField: "color-dark",
+	backgroundField: "background",
+	boldField: "bold",
+	italicField: "italic",
+	strikethroughField: "strikethrough",
+	opacityField: "opacity",
+	classField: "decorator-class",
+	palette: [],
+	recentColors: [],
+	contrastCorrection: false,
+	minContrastRatio: 4.5,
+	folderNoteName: "",
+	inheritFolderStyle: false,
+	parentLinkFields: [],
+	parentLinkDepth: 5,
+	valueMappings: [],
+	rules: [],
 	enableFileExplorer: true,
+	enableFolders: true,
 	enableTabHeader: true,
+	enableNoteTitles: true,
 	enableQuickSwitcher: true,
 	enableSuggester: true,
 	enableBacklinks: true,
+	enableSearch: true,
+	enableOutgoingLinks: true,
+	enableBookmarks: true,
+	enableRecentFiles: true,
 	enableBases: true,
+	enableGraph: false,
+	enableCanvas: true,
 	enableEditorLinks: true,
+	showEditorLinkIcons: true,
+	canvasNodeBorder: true,
+	displayModes: {
+		fileExplorer: "text",
+		tabHeader: "text",
+		noteTitle: "text",
+		quickSwitcher: "text",
+		linkSuggester: "text",
+		backlinks: "text",
+		search: "text",
+		outgoingLinks: "text",
+		bookmarks: "text",
+		recentFiles: "text",
+		bases: "text",
+		canvas: "text",
+		editorLinks: "text",
+	},
 };
 
+// ============================================================================
+// Color Utilities
+// ============================================================================
+
+type RGB = [number, number, number];
+
+/**
+ * Whether Obsidian is currently using the dark theme
+ */
+function isDarkTheme(): boolean {
+	return document.body.classList.contains("theme-dark");
+}
+
+/**
+ * Pick the value for the current theme from a `{light, dark}` frontmatter object
+ * Plain values are returned unchanged
+ */
+function pickThemeValue(value: unknown, dark: boolean): unknown {
+	if (value && typeof value === "object" && !Array.isArray(value)) {
+		const themed = value as { light?: unknown; dark?: unknown };
+		return (dark ? themed.dark : themed.light) ?? themed.light ?? themed.dark ?? null;
+	}
+	return value;
+}
+
+/**
+ * Resolve any CSS color (hex, named, rgb(), var(--x), ...) to RGB by letting the browser compute it
+ */
+function resolveCssColor(value: string): RGB | null {
+	const probe = document.body.createSpan();
+	probe.style.display = "none";
+	probe.style.color = value;
+	// An invalid color leaves the inline style empty
+	const valid = probe.style.color !== "";
+	const computed = getComputedStyle(probe).color;
+	probe.remove();
+
+	if (!valid) return null;
+
+	const channels = computed.match(/[\d.]+/g);
+	if (!channels || channels.length < 3) return null;
+	return [Number(channels[0]), Number(channels[1]), Number(channels[2])];
+}
+
+/**
+ * WCAG relative luminance of an sRGB color
+ */
+function relativeLuminance([r, g, b]: RGB): number {
+	const [lr, lg, lb] = [r, g, b].map((channel) => {
+		const c = channel / 255;
+		return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+	});
+	return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * WCAG contrast ratio between two colors (1-21)
+ */
+function contrastRatio(a: RGB, b: RGB): number {
+	const la = relativeLuminance(a);
+	const lb = relativeLuminance(b);
+	return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/**
+ * Mix a color toward white or black until it meets the minimum contrast ratio against the background
+ * Returns the original value when it already has enough contrast or can't be parsed
+ */
+function ensureContrast(color: string, background: string, minRatio: number): string {
+	const fg = resolveCssColor(color);
+	const bg = resolveCssColor(background);
+	if (!fg || !bg || contrastRatio(fg, bg) >= minRatio) {
+		return color;
+	}
+
+	// Lighten on dark backgrounds, darken on light ones
+	const target: RGB = relativeLuminance(bg) < 0.5 ? [255, 255, 255] : [0, 0, 0];
+	let adjusted: RGB = fg;
+	// Count whole steps so the last one mixes all the way to the target
+	const steps = 20;
+	for (let step = 1; step <= steps; step++) {
+		const amount = step / steps;
+		adjusted = fg.map((channel, i) => Math.round(channel + (target[i] - channel) * amount)) as RGB;
+		if (contrastRatio(adjusted, bg) >= minRatio) break;
+	}
+
+	return `rgb(${adjusted[0]}, ${adjusted[1]}, ${adjusted[2]})`;
+}
+
 // ============================================================================
 // File Metadata Cache
 // ============================================================================
 
+/**
+ * Resolved style for a file. `null` means the value is not set.
+ */
 interface FileStyle {
 	color: string | null;
 	icon: string | null;
+	background: string | null;
+	bold: boolean | null;
+	italic: boolean | null;
+	strikethrough: boolean | null;
+	opacity: number | null;
+	// Custom CSS classes for snippets; empty when not set
+	classes: string[];
+}
+
+/**
+ * Create a style with no values set
+ */
+function emptyStyle(): FileStyle {
+	return {
+		color: null,
+		icon: null,
+		background: null,
+		bold: null,
+		italic: null,
+		strikethrough: null,
+		opacity: null,
+		classes: [],
+	};
+}
+
+/**
+ * Check whether two styles would decorate an element the same way
+ */
+function isSameStyle(a: FileStyle, b: FileStyle): boolean {
+	return (
+		a.color === b.color &&
+		a.icon === b.icon &&
+		a.background === b.background &&
+		a.bold === b.bold &&
+		a.italic === b.italic &&
+		a.strikethrough === b.strikethrough &&
+		a.opacity === b.opacity &&
+		a.classes.join(" ") === b.classes.join(" ")
+	);
+}
+
+/**
+ * Copy values from a fallback style into any fields the style is missing
+ */
+function fillMissingStyle(style: FileStyle, fallback: FileStyle): void {
+	inheritStyle(style, fallback);
+	if (style.background === null) {
+		style.background = fallback.background;
+	}
+	if (style.bold === null) {
+		style.bold = fallback.bold;
+	}
+	if (style.italic === null) {
+		style.italic = fallback.italic;
+	}
+	if (style.strikethrough === null) {
+		style.strikethrough = fallback.strikethrough;
+	}
+	if (style.opacity === null) {
+		style.opacity = fallback.opacity;
+	}
+	if (style.classes.length === 0) {
+		style.classes = fallback.classes;
+	}
+}
+
+/**
+ * Inherit color and icon from a parent (note or folder) where the style has none
+ */
+function inheritStyle(style: FileStyle, parent: FileStyle): void {
+	if (style.color === null) {
+		style.color = parent.color;
+	}
+	if (style.icon === null) {
+		style.icon = parent.icon;
+	}
+}
+
+/**
+ * Parse a frontmatter flag such as `bold: true` or `strikethrough: yes`
+ */
+function parseFlag(value: unknown): boolean | null {
+	if (typeof value === "boolean") return value;
+	if (typeof value !== "string") return null;
+
+	const normalized = value.trim().toLowerCase();
+	if (["true", "yes", "on"].includes(normalized)) return true;
+	if (["false", "no", "off"].includes(normalized)) return false;
+	return null;
+}
+
+/**
+ * Parse frontmatter CSS classes, given as a list or a space-separated string
+ */
+function parseClasses(value: unknown): string[] {
+	const values = Array.isArray(value) ? value : [value];
+	const classes: string[] = [];
+
+	for (const item of values) {
+		if (typeof item !== "string") continue;
+		classes.push(...item.split(/\s+/).filter((name) => name.length > 0));
+	}
+
+	return classes;
+}
+
+/**
+ * Parse a frontmatter opacity such as `0.5`, `50` or `"50%"` into the range 0-1
+ */
+function parseOpacity(value: unknown): number | null {
+	let opacity: number;
+	if (typeof value === "number") {
+		opacity = value > 1 ? value / 100 : value;
+	} else if (typeof value === "string" && value.trim()) {
+		const trimmed = value.trim();
+		const parsed = parseFloat(trimmed);
+		if (isNaN(parsed)) return null;
+		opacity = trimmed.endsWith("%") || parsed > 1 ? parsed / 100 : parsed;
+	} else {
+		return null;
+	}
+
+	return Math.min(1, Math.max(0, opacity));
+}
+
+/**
+ * Extract link paths from a frontmatter value such as `"[[Project Apollo|Apollo]]"`
+ * Lists yield one link path per element; headings and aliases are dropped
+ */
+function extractLinkpaths(value: unknown): string[] {
+	const values = Array.isArray(value) ? value : [value];
+	const linkpaths: string[] = [];
+
+	for (const item of values) {
+		if (typeof item !== "string") continue;
+
+		const linkpath = getLinkpath(item);
+		if (linkpath) {
+			linkpaths.push(linkpath);
+		}
+	}
+
+	return linkpaths;
+}
+
+/**
+ * Convert a path glob to a regular expression
+ * Supports `**` (any depth), `*` (within one segment) and `?` (one character)
+ */
+function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "*") {
+			if (glob[i + 1] === "*") {
+				// '**/' also matches zero directories
+				if (glob[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
 }
 
 /**
@@ -75,7 +659,17 @@ interface FileStyle {
  */
 class FileStyleCache {
 	private cache: Map<string, FileStyle> = new Map();
+	// Notes' own styles (frontmatter, value mappings, rules), before anything is inherited
+	private ownStyles: Map<string, FileStyle> = new Map();
+	// Notes' parent links as written in frontmatter, before resolving them
+	private parentLinkpaths: Map<string, string[]> = new Map();
 	private plugin: FrontmatterDecoratorPlugin;
+	// Compiled glob/regex rule patterns, keyed by match type and pattern
+	private patternCache: Map<string, RegExp | null> = new Map();
+	// Paths whose cached style was derived from another path (folder notes, parent folders, parent notes)
+	private dependents: Map<string, Set<string>> = new Map();
+	// Notes whose parent links name a file, by the lowercased name, so creating that file restyles them
+	private linkDependents: Map<string, Set<string>> = new Map();
 
 	constructor(plugin: FrontmatterDecoratorPlugin) {
 		this.plugin = plugin;
@@ -95,962 +689,2631 @@ class FileStyleCache {
 	}
 
 	/**
-	 * Compute the style for a file by reading its frontmatter
+	 * Get a note's own style, using cache if available
+	 * The result is shared, so callers must copy it before modifying it
+	 */
+	private getOwnStyle(file: TFile): FileStyle {
+		let style = this.ownStyles.get(file.path);
+		if (!style) {
+			style = this.computeFileStyle(file);
+			this.ownStyles.set(file.path, style);
+		}
+		return style;
+	}
+
+	/**
+	 * Compute the style for a file or folder, including folder inheritance
 	 */
 	private computeStyle(filePath: string): FileStyle {
 		const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
-		if (!(file instanceof TFile) || file.extension !== "md") {
-			return { color: null, icon: null };
-		}
 
-		const cache = this.plugin.app.metadataCache.getFileCache(file);
-		const frontmatter = cache?.frontmatter;
+		let style: FileStyle;
+		if (file instanceof TFolder) {
+			if (file.isRoot()) {
+				return emptyStyle();
+			}
+			style = this.computeFolderStyle(file);
+		} else if (file instanceof TFile && file.extension === "md") {
+			style = { ...this.getOwnStyle(file) };
+			if (style.color === null || style.icon === null) {
+				this.applyParentLinks(file, style);
+			}
+		} else if (file instanceof TFile) {
+			// Other files (canvases, PDFs, ...) have no frontmatter, but rules can still style them
+			style = emptyStyle();
+			this.applyRules(file, null, style);
+		} else {
+			return emptyStyle();
+		}
 
-		if (!frontmatter) {
-			return { color: null, icon: null };
+		// Take whatever is still missing from the nearest styled ancestor folder
+		const parent = file.parent;
+		if (
+			this.plugin.settings.inheritFolderStyle &&
+			(style.color === null || style.icon === null) &&
+			parent &&
+			!parent.isRoot()
+		) {
+			this.addDependency(parent.path, filePath);
+			inheritStyle(style, this.getStyle(parent.path));
 		}
 
-		const colorField = this.plugin.settings.colorField;
-		const iconField = this.plugin.settings.iconField;
+		style.color = this.resolvePaletteColor(style.color);
+		style.background = this.resolvePaletteColor(style.background);
 
-		return {
-			color: frontmatter[colorField] ?? null,
-			icon: frontmatter[iconField] ?? null,
-		};
+		if (style.color !== null && this.plugin.settings.contrastCorrection) {
+			const background = getComputedStyle(document.body).getPropertyValue("--background-primary").trim();
+			if (background) {
+				style.color = ensureContrast(style.color, background, this.plugin.settings.minContrastRatio);
+			}
+		}
+
+		return style;
 	}
 
 	/**
-	 * Invalidate a specific file's cache entry
+	 * Resolve a palette name (case-insensitive) to its color
+	 * Values that aren't palette names are returned unchanged
 	 */
-	invalidate(filePath: string): void {
-		this.cache.delete(filePath);
+	private resolvePaletteColor(value: string | null): string | null {
+		if (value === null) return null;
+
+		const name = String(value).trim().toLowerCase();
+		const entry = this.plugin.settings.palette.find(
+			(paletteColor) => paletteColor.name.trim().toLowerCase() === name
+		);
+		return entry?.color ? entry.color : value;
 	}
 
 	/**
-	 * Clear the entire cache
+	 * Fill in missing style values from parent notes linked in frontmatter (e.g. `up: "[[Project]]"`)
+	 * Walks the chain depth-first: each parent's own style, then its parents, then its folder. Only
+	 * own styles and folder styles are read, so the result doesn't depend on what was cached first
+	 * Returns true once both color and icon are set
 	 */
-	clear(): void {
-		this.cache.clear();
-	}
-}
+	private applyParentLinks(file: TFile, style: FileStyle, chain: TFile[] = [file]): boolean {
+		const settings = this.plugin.settings;
+		// The chain holds the note itself, so its length is the number of links the next step follows
+		if (settings.parentLinkFields.length === 0 || chain.length > settings.parentLinkDepth) return false;
 
-// ============================================================================
-// Style Applicator
-// ============================================================================
+		const note = chain[chain.length - 1];
+		for (const linkpath of this.getParentLinkpaths(note)) {
+			// Track the name even if it doesn't resolve yet, so creating the parent restyles the note
+			this.addLinkDependency(linkpath, file.path);
 
-/**
- * Handles applying and removing styles from DOM elements
- */
-class StyleApplicator {
-	private plugin: FrontmatterDecoratorPlugin;
-	private styledElements: WeakSet<HTMLElement> = new WeakSet();
-	private notebookNavigator: NotebookNavigatorPlugin | null = null;
-	private nnChecked = false;
+			// Resolve relative to the linking note so duplicate names pick the right parent
+			const parentPath = this.plugin.linkResolver.resolveLink(linkpath, note.path);
+			if (!parentPath || chain.some((linked) => linked.path === parentPath)) continue;
 
-	constructor(plugin: FrontmatterDecoratorPlugin) {
-		this.plugin = plugin;
+			// Any note along the chain can change the result
+			this.addDependency(parentPath, file.path);
+
+			const parent = this.plugin.app.vault.getAbstractFileByPath(parentPath);
+			if (!(parent instanceof TFile) || parent.extension !== "md") continue;
+
+			inheritStyle(style, this.getOwnStyle(parent));
+			if (style.color !== null && style.icon !== null) return true;
+
+			if (this.applyParentLinks(file, style, [...chain, parent])) return true;
+
+			const folder = parent.parent;
+			if (settings.inheritFolderStyle && folder && !folder.isRoot()) {
+				this.addDependency(folder.path, file.path);
+				inheritStyle(style, this.getStyle(folder.path));
+				if (style.color !== null && style.icon !== null) return true;
+			}
+		}
+
+		return false;
 	}
 
 	/**
-	 * Get Notebook Navigator plugin instance
+	 * Get the parent links in a note's frontmatter, in field order, using cache if available
 	 */
-	private getNotebookNavigator(): NotebookNavigatorPlugin | null {
-		if (this.nnChecked) {
-			return this.notebookNavigator;
-		}
-
-		this.nnChecked = true;
-		// Access plugins via extended interface (plugins property not in official typings but exists at runtime)
-		const plugins = (this.plugin.app as AppWithPlugins).plugins?.plugins;
-		const nn = plugins?.["notebook-navigator"] as NotebookNavigatorPlugin | undefined;
-		if (nn) {
-			this.notebookNavigator = nn;
+	private getParentLinkpaths(note: TFile): string[] {
+		let linkpaths = this.parentLinkpaths.get(note.path);
+		if (!linkpaths) {
+			linkpaths = [];
+			const frontmatter = this.plugin.app.metadataCache.getFileCache(note)?.frontmatter;
+			if (frontmatter) {
+				for (const field of this.plugin.settings.parentLinkFields) {
+					linkpaths.push(...extractLinkpaths(frontmatter[field]));
+				}
+			}
+			this.parentLinkpaths.set(note.path, linkpaths);
 		}
-		return this.notebookNavigator;
+		return linkpaths;
 	}
 
 	/**
-	 * Apply color and icon to an element based on file path
+	 * Compute a folder's own style from its folder note and folder rules
 	 */
-	applyStyle(element: HTMLElement, filePath: string): void {
-		const style = this.plugin.styleCache.getStyle(filePath);
+	private computeFolderStyle(folder: TFolder): FileStyle {
+		const style = emptyStyle();
 
-		// Apply color via CSS custom property
-		if (style.color) {
-			element.style.setProperty("--frontmatter-color", style.color);
-			element.classList.add("has-frontmatter-color");
-			element.dataset.frontmatterColor = style.color;
+		for (const notePath of this.getFolderNotePaths(folder)) {
+			// Track candidates even if they don't exist yet, so creating one restyles the folder
+			this.addDependency(notePath, folder.path);
+
+			const note = this.plugin.app.vault.getAbstractFileByPath(notePath);
+			if (note instanceof TFile && note.extension === "md") {
+				fillMissingStyle(style, this.getOwnStyle(note));
+				break;
+			}
 		}
 
-		// Apply icon
-		if (style.icon) {
-			this.applyIcon(element, style.icon);
+		if (style.color === null || style.icon === null) {
+			this.applyRules(folder, null, style);
 		}
 
-		if (style.color || style.icon) {
-			this.styledElements.add(element);
-		}
+		return style;
 	}
 
 	/**
-	 * Apply ONLY color styling (no icons) - used for quick switcher to avoid layout issues
+	 * Candidate folder note paths, in priority order
+	 * The configured name (e.g. `_folder`) wins over a note named after the folder
 	 */
-	applyStyleColorOnly(_element: HTMLElement, _filePath: string): void {
-		// Note: Color styling in quick switcher is currently disabled
-		// Icons are also disabled to prevent layout issues with Obsidian's suggestion-highlight spans
-		// This prevents text from becoming jumbled when search terms are highlighted
+	private getFolderNotePaths(folder: TFolder): string[] {
+		const paths: string[] = [];
+
+		const configured = this.plugin.settings.folderNoteName.trim().replace(/\.md$/, "");
+		if (configured) {
+			paths.push(`${folder.path}/${configured}.md`);
+		}
+		paths.push(`${folder.path}/${folder.name}.md`);
 
-		// Color application code commented out as it doesn't work reliably in quick switcher
-		// const style = this.plugin.styleCache.getStyle(filePath);
-		// if (style.color) {
-		// 	const currentColor = element.dataset.frontmatterColor;
-		// 	if (currentColor !== style.color) {
-		// 		element.style.color = style.color + ' !important';
-		// 		element.dataset.frontmatterColor = style.color;
-		// 		const childSpans = element.querySelectorAll('span');
-		// 		childSpans.forEach((span: HTMLElement) => {
-		// 			span.style.color = style.color + ' !important';
-		// 		});
-		// 	}
-		// 	this.styledElements.add(element);
-		// }
+		return paths;
 	}
 
 	/**
-	 * Remove applied styles from an element
+	 * Compute a note's own style from its frontmatter, value mappings and rules
 	 */
-	removeStyle(element: HTMLElement): void {
-		element.style.removeProperty("--frontmatter-color");
-		element.classList.remove("has-frontmatter-color");
-		delete element.dataset.frontmatterColor;
+	private computeFileStyle(file: TFile): FileStyle {
+		const cache = this.plugin.app.metadataCache.getFileCache(file);
+		const frontmatter = cache?.frontmatter;
+
+		const settings = this.plugin.settings;
+		const dark = isDarkTheme();
+
+		// A theme-specific color field wins over the plain color field
+		const color = frontmatter?.[dark ? settings.colorDarkField : settings.colorLightField] ??
+			frontmatter?.[settings.colorField];
+
+		// Precedence: direct frontmatter fields, then value mappings, then rules
+		const style: FileStyle = {
+			color: (pickThemeValue(color, dark) as string | undefined) ?? null,
+			icon: frontmatter?.[settings.iconField] ?? null,
+			background: (pickThemeValue(frontmatter?.[settings.backgroundField], dark) as string | undefined) ?? null,
+			bold: parseFlag(frontmatter?.[settings.boldField]),
+			italic: parseFlag(frontmatter?.[settings.italicField]),
+			strikethrough: parseFlag(frontmatter?.[settings.strikethroughField]),
+			opacity: parseOpacity(frontmatter?.[settings.opacityField]),
+			classes: parseClasses(frontmatter?.[settings.classField]),
+		};
 
-		// Remove icon container if we added one
-		const iconContainer = element.querySelector(".frontmatter-icon");
-		if (iconContainer) {
-			iconContainer.remove();
+		if (frontmatter && (style.color === null || style.icon === null)) {
+			this.applyValueMappings(frontmatter, style);
 		}
 
-		this.styledElements.delete(element);
+		if (style.color === null || style.icon === null) {
+			this.applyRules(file, cache, style);
+		}
+
+		return style;
 	}
 
 	/**
-	 * Apply an icon to an element
+	 * Fill in missing style values from the first matching value mappings, in order
+	 * List properties match when any element equals the mapped value
 	 */
-	private applyIcon(element: HTMLElement, iconId: string): void {
-		// Check if icon container already exists
-		const existingContainer = element.querySelector(
-			".frontmatter-icon"
-		);
+	private applyValueMappings(frontmatter: Record<string, unknown>, style: FileStyle): void {
+		for (const mapping of this.plugin.settings.valueMappings) {
+			if (!mapping.color && !mapping.icon) continue;
+
+			const property = mapping.property.trim();
+			if (!property || !(property in frontmatter)) continue;
+
+			const wanted = mapping.value.trim().toLowerCase();
+			const raw = frontmatter[property];
+			const values = Array.isArray(raw) ? raw : [raw];
+			const matches = values.some(
+				(value) => value !== null && value !== undefined && String(value).trim().toLowerCase() === wanted
+			);
+			if (!matches) continue;
 
-		let iconContainer: HTMLElement;
-		if (!existingContainer) {
-			iconContainer = document.createElement("span");
-			iconContainer.classList.add("frontmatter-icon");
-			element.insertBefore(iconContainer, element.firstChild);
-		} else if (existingContainer instanceof HTMLElement) {
-			iconContainer = existingContainer;
-		} else {
-			return;
+			if (style.color === null && mapping.color) {
+				style.color = mapping.color;
+			}
+			if (style.icon === null && mapping.icon) {
+				style.icon = mapping.icon;
+			}
+
+			if (style.color !== null && style.icon !== null) {
+				return;
+			}
 		}
+	}
 
-		// Clear existing icon
-		iconContainer.empty();
+	/**
+	 * Fill in missing style values from the first matching rules, in order
+	 * Folders only match folder rules, which style the folder itself as well as its contents
+	 * Files without metadata (canvases, PDFs, ...) never match tag rules
+	 */
+	private applyRules(file: TAbstractFile, cache: CachedMetadata | null, style: FileStyle): void {
+		for (const rule of this.plugin.settings.rules) {
+			if (!rule.color && !rule.icon) continue;
+			if (!this.matchesRule(rule, file, cache)) continue;
 
-		// Try to use Notebook Navigator's icon provider first
-		const nn = this.getNotebookNavigator();
-		if (nn) {
-			const success = this.applyIconWithNotebookNavigator(iconContainer, iconId, nn);
-			if (success) {
+			if (style.color === null && rule.color) {
+				style.color = rule.color;
+			}
+			if (style.icon === null && rule.icon) {
+				style.icon = rule.icon;
+			}
+
+			if (style.color !== null && style.icon !== null) {
 				return;
 			}
 		}
+	}
 
-		// Fallback to native Obsidian setIcon for Lucide icons
-		const normalizedIcon = this.normalizeLucideIcon(iconId);
-		if (normalizedIcon) {
-			setIcon(iconContainer, normalizedIcon);
+	/**
+	 * Check whether a rule selects the given file
+	 */
+	private matchesRule(rule: StyleRule, file: TAbstractFile, cache: CachedMetadata | null): boolean {
+		const pattern = rule.pattern.trim();
+		if (!pattern) return false;
+
+		if (file instanceof TFolder) {
+			if (rule.match !== "folder") return false;
+			const folder = pattern.replace(/^\/+|\/+$/g, "");
+			return !folder || file.path === folder || file.path.startsWith(folder + "/");
+		}
+
+		switch (rule.match) {
+			case "tag": {
+				if (!cache) return false;
+				// Nested tags match their parent: 'project' matches '#project/apollo'
+				const wanted = pattern.replace(/^#/, "").toLowerCase();
+				const tags = getAllTags(cache) ?? [];
+				return tags.some((tag) => {
+					const name = tag.replace(/^#/, "").toLowerCase();
+					return name === wanted || name.startsWith(wanted + "/");
+				});
+			}
+			case "folder": {
+				const folder = pattern.replace(/^\/+|\/+$/g, "");
+				// '/' means the vault root
+				return !folder || file.path.startsWith(folder + "/");
+			}
+			case "glob": {
+				const regex = this.getPattern(rule);
+				return regex !== null && regex.test(file.path);
+			}
+			case "regex": {
+				const regex = this.getPattern(rule);
+				return regex !== null && regex.test(file.name);
+			}
+			default:
+				return false;
 		}
 	}
 
 	/**
-	 * Try to apply icon using Notebook Navigator's icon provider
+	 * Compile (and memoize) a glob or regex rule pattern
+	 * Invalid regular expressions never match
 	 */
-	private applyIconWithNotebookNavigator(container: HTMLElement, iconId: string, nn: NotebookNavigatorPlugin): boolean {
+	private getPattern(rule: StyleRule): RegExp | null {
+		const key = `${rule.match}:${rule.pattern}`;
+		if (this.patternCache.has(key)) {
+			return this.patternCache.get(key)!;
+		}
+
+		let regex: RegExp | null;
 		try {
-			// Normalize the icon ID for Notebook Navigator
-			const normalizedIconId = this.normalizeIconIdForNN(iconId);
+			regex = rule.match === "glob"
+				? globToRegExp(rule.pattern.trim())
+				: new RegExp(rule.pattern.trim());
+		} catch {
+			regex = null;
+		}
 
-			// Use externalIconController.iconService.renderIcon (the correct method)
-			if (nn.externalIconController?.iconService) {
-				const iconService = nn.externalIconController.iconService;
+		this.patternCache.set(key, regex);
+		return regex;
+	}
 
-				if (typeof iconService.renderIcon === "function") {
-					iconService.renderIcon(container, normalizedIconId);
-					if (container.childNodes.length > 0) {
-						return true;
-					}
-				}
-			}
+	/**
+	 * Record that the style of `dependent` was derived from `source`
+	 */
+	private addDependency(source: string, dependent: string): void {
+		let dependents = this.dependents.get(source);
+		if (!dependents) {
+			dependents = new Set();
+			this.dependents.set(source, dependents);
+		}
+		dependents.add(dependent);
+	}
 
-			return false;
-		} catch {
-			// Notebook Navigator icon provider not available, will fall back to Lucide
-			return false;
+	/**
+	 * Record that the style of `dependent` depends on what a parent link's name resolves to
+	 */
+	private addLinkDependency(linkpath: string, dependent: string): void {
+		const name = getLinkName(linkpath);
+		let dependents = this.linkDependents.get(name);
+		if (!dependents) {
+			dependents = new Set();
+			this.linkDependents.set(name, dependents);
 		}
+		dependents.add(dependent);
 	}
 
 	/**
-	 * Normalize icon ID for Notebook Navigator's icon service
-	 * Handles stripping redundant prefixes like 'ph-' from Phosphor icons
+	 * Invalidate notes whose parent links name a file that was just created or renamed,
+	 * since those links may now resolve to it
+	 * Returns every path whose style was invalidated
 	 */
-	private normalizeIconIdForNN(iconId: string): string {
-		if (!iconId) return iconId;
+	invalidateLinksTo(file: TFile, invalidated: Set<string> = new Set()): Set<string> {
+		const name = getLinkName(file.path);
+		const dependents = this.linkDependents.get(name);
+		if (dependents) {
+			this.linkDependents.delete(name);
+			dependents.forEach((dependent) => this.invalidate(dependent, invalidated));
+		}
+		return invalidated;
+	}
 
-		// Phosphor icons: strip 'ph-' prefix if present
-		// e.g., 'phosphor:ph-bridge' -> 'phosphor:bridge'
-		if (iconId.startsWith("phosphor:ph-")) {
-			return "phosphor:" + iconId.slice(12);
+	/**
+	 * Re-read a note after its metadata changed, cascading only if that changes anything derived from it
+	 * Returns the paths to re-style, which is none for edits that leave the style as it was (body text, ...)
+	 */
+	update(file: TFile): Set<string> {
+		const style = this.cache.get(file.path);
+		const ownStyle = this.ownStyles.get(file.path);
+		const linkpaths = this.parentLinkpaths.get(file.path);
+		// Without cached values there's nothing to compare against
+		if (!style || !ownStyle) {
+			return this.invalidate(file.path);
 		}
 
-		// Simple Icons: strip 'si-' prefix if present
-		// e.g., 'simple-icons:si-github' -> 'simple-icons:github'
-		if (iconId.startsWith("simple-icons:si-")) {
-			return "simple-icons:" + iconId.slice(16);
+		// Recompute this note alone; styles derived from it keep their cache unless it changed
+		this.forget(file.path);
+		const unchanged =
+			isSameStyle(ownStyle, this.getOwnStyle(file)) &&
+			isSameStyle(style, this.getStyle(file.path)) &&
+			// Notes further down a parent link chain read this note's links too
+			(!linkpaths || linkpaths.join("\n") === this.getParentLinkpaths(file).join("\n"));
+
+		return unchanged ? new Set() : this.invalidate(file.path);
+	}
+
+	/**
+	 * Invalidate a specific file's cache entry, cascading to styles derived from it
+	 * Returns every path whose style was invalidated
+	 */
+	invalidate(filePath: string, invalidated: Set<string> = new Set()): Set<string> {
+		invalidated.add(filePath);
+		this.forget(filePath);
+
+		const dependents = this.dependents.get(filePath);
+		if (dependents) {
+			// Delete first so dependency cycles can't recurse forever
+			this.dependents.delete(filePath);
+			dependents.forEach((dependent) => this.invalidate(dependent, invalidated));
 		}
 
-		return iconId;
+		return invalidated;
 	}
 
 	/**
-	 * Normalize Lucide icon ID to Obsidian's expected format
+	 * Drop a path's own cache entries, leaving styles derived from it alone
 	 */
-	private normalizeLucideIcon(iconId: string): string | null {
-		if (!iconId) return null;
+	private forget(filePath: string): void {
+		this.cache.delete(filePath);
+		this.ownStyles.delete(filePath);
+		this.parentLinkpaths.delete(filePath);
+	}
 
-		// Already in lucide format (lucide-xxx)
-		if (iconId.startsWith("lucide-")) {
-			return iconId;
+	/**
+	 * Clear the entire cache
+	 */
+	clear(): void {
+		this.cache.clear();
+		this.ownStyles.clear();
+		this.parentLinkpaths.clear();
+		this.patternCache.clear();
+		this.dependents.clear();
+		this.linkDependents.clear();
+	}
+}
+
+// ============================================================================
+// Link Resolution
+// ============================================================================
+
+/**
+ * Strip link text down to its path: `[[Folder/Note#Heading|Alias]]`, `Note#^block` and `Note^block`
+ * all give `Folder/Note` or `Note`. File names can't contain `#`, `^` or `|`, so the first of them
+ * starts the suffix
+ */
+function getLinkpath(linktext: string): string {
+	return linktext
+		.trim()
+		.replace(/^!?\[\[|\]\]$/g, "")
+		.split(/[#^|]/)[0]
+		.trim();
+}
+
+/**
+ * The lowercased file name a link path or file path refers to, without folders or `.md`
+ */
+function getLinkName(linkpath: string): string {
+	const name = linkpath.split("/").pop() ?? "";
+	return name.replace(/\.md$/i, "").toLowerCase();
+}
+
+/**
+ * Resolves links and displayed file names to files for every location
+ * Keeps an index of files by basename and alias, updated as files are created, renamed and
+ * deleted, so name lookups never scan the vault
+ */
+class LinkResolver {
+	private plugin: FrontmatterDecoratorPlugin;
+	// Files by lowercased basename or alias; built on first use
+	private filesByName: Map<string, Set<TFile>> = new Map();
+	// Names each file is indexed under; keyed by the file itself, since a renamed file already has its new path
+	private namesByFile: Map<TFile, string[]> = new Map();
+	private indexed = false;
+
+	constructor(plugin: FrontmatterDecoratorPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Resolve link text to a file path, relative to the note containing the link
+	 * Handles `[[...]]` brackets and `#heading`, `^block` and `|alias` suffixes
+	 */
+	resolveLink(linktext: string | null, sourcePath: string): string | null {
+		if (!linktext) return null;
+
+		const linkpath = getLinkpath(linktext);
+		if (!linkpath) return null;
+
+		const file = this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+		return file ? file.path : null;
+	}
+
+	/**
+	 * Resolve a displayed name (a path, basename or alias, as shown in panes and Bases) to a file path
+	 * Names that aren't valid links fall back to the basename and alias index
+	 */
+	resolveName(name: string, sourcePath: string): string | null {
+		const linked = this.resolveLink(name, sourcePath);
+		if (linked) return linked;
+
+		const files = this.getIndex().get(getLinkpath(name).toLowerCase());
+		if (files) {
+			for (const file of files) {
+				return file.path;
+			}
 		}
+		return null;
+	}
 
-		// Skip external icon formats - these need Notebook Navigator
-		if (iconId.includes(":")) {
-			return null;
+	/**
+	 * The path of the file shown in the leaf containing an element, to resolve its links against
+	 * Empty for elements outside a file view, such as sidebar panes
+	 */
+	getSourcePath(element: HTMLElement): string {
+		let sourcePath = "";
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			if (!sourcePath && leaf.view instanceof FileView && leaf.view.file && leaf.view.containerEl.contains(element)) {
+				sourcePath = leaf.view.file.path;
+			}
+		});
+		return sourcePath;
+	}
+
+	/**
+	 * Index a new file, or re-index a changed one (its aliases may have changed)
+	 */
+	indexFile(file: TFile): void {
+		// Nothing to update until the index is first used
+		if (!this.indexed) return;
+
+		this.removeFile(file);
+
+		const names = [file.basename];
+		if (file.extension === "md") {
+			const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+			names.push(...(parseFrontMatterAliases(frontmatter) ?? []));
 		}
 
-		// Assume it's a Lucide icon without prefix - add the prefix
-		return `lucide-${iconId}`;
+		const keys = Array.from(new Set(names.map((name) => name.toLowerCase())));
+		for (const key of keys) {
+			let files = this.filesByName.get(key);
+			if (!files) {
+				files = new Set();
+				this.filesByName.set(key, files);
+			}
+			files.add(file);
+		}
+		this.namesByFile.set(file, keys);
+	}
+
+	/**
+	 * Drop a deleted file from the index
+	 */
+	removeFile(file: TFile): void {
+		const keys = this.namesByFile.get(file);
+		if (!keys) return;
+
+		for (const key of keys) {
+			const files = this.filesByName.get(key);
+			if (!files) continue;
+
+			files.delete(file);
+			if (files.size === 0) {
+				this.filesByName.delete(key);
+			}
+		}
+		this.namesByFile.delete(file);
+	}
+
+	/**
+	 * Re-index a renamed file under its new name, dropping the names of its old one
+	 */
+	renameFile(file: TFile): void {
+		this.indexFile(file);
+	}
+
+	/**
+	 * Drop the whole index; it is rebuilt on next use
+	 */
+	clear(): void {
+		this.filesByName.clear();
+		this.namesByFile.clear();
+		this.indexed = false;
+	}
+
+	private getIndex(): Map<string, Set<TFile>> {
+		if (!this.indexed) {
+			this.indexed = true;
+			this.plugin.app.vault.getFiles().forEach((file) => this.indexFile(file));
+		}
+		return this.filesByName;
 	}
 }
 
 // ============================================================================
-// DOM Observers
+// Style Applicator
 // ============================================================================
 
 /**
- * Base class for DOM observers
+ * Handles applying and removing styles from DOM elements
+ */
+class StyleApplicator {
+	private plugin: FrontmatterDecoratorPlugin;
+	private styledElements: WeakSet<HTMLElement> = new WeakSet();
+	private notebookNavigator: NotebookNavigatorPlugin | null = null;
+	private nnChecked = false;
+
+	constructor(plugin: FrontmatterDecoratorPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Get Notebook Navigator plugin instance
+	 */
+	getNotebookNavigator(): NotebookNavigatorPlugin | null {
+		if (this.nnChecked) {
+			return this.notebookNavigator;
+		}
+
+		this.nnChecked = true;
+		// Access plugins via extended interface (plugins property not in official typings but exists at runtime)
+		const plugins = (this.plugin.app as AppWithPlugins).plugins?.plugins;
+		const nn = plugins?.["notebook-navigator"] as NotebookNavigatorPlugin | undefined;
+		if (nn) {
+			this.notebookNavigator = nn;
+		}
+		return this.notebookNavigator;
+	}
+
+	/**
+	 * Reconcile an element with a file's current style: apply what is set and remove what is not
+	 * Safe to call repeatedly, and on elements that previously showed another file
+	 */
+	applyStyle(element: HTMLElement, filePath: string, location: DecoratorLocation): void {
+		const style = this.plugin.styleCache.getStyle(filePath);
+
+		// A stable hook for CSS snippets, on every element showing a file
+		element.dataset.frontmatterPath = filePath;
+		this.applyTextStyle(element, style, location);
+
+		// Apply or remove the icon
+		if (style.icon) {
+			this.applyIcon(element, style.icon);
+		} else {
+			this.removeIcon(element);
+		}
+
+		if (style.color || style.icon) {
+			this.styledElements.add(element);
+		} else {
+			this.styledElements.delete(element);
+		}
+
+		// Index the element even when unstyled, so a style added later reaches it
+		this.plugin.styleDispatcher.track(element, filePath, location);
+	}
+
+	/**
+	 * Accent a container (an embed, a canvas card) with a file's color through a CSS class
+	 * Tracked like other decorations, so it is re-styled and removed along with its location
+	 */
+	applyAccent(element: HTMLElement, filePath: string, location: DecoratorLocation, accentClass: string): void {
+		const color = this.plugin.styleCache.getStyle(filePath).color;
+
+		element.dataset.frontmatterPath = filePath;
+		if (color) {
+			element.style.setProperty("--frontmatter-color", color);
+			element.classList.add(accentClass);
+		} else {
+			element.style.removeProperty("--frontmatter-color");
+			element.classList.remove(accentClass);
+		}
+
+		this.plugin.styleDispatcher.track(element, filePath, location, accentClass);
+	}
+
+	/**
+	 * Apply everything except the icon: color, background, font styles and opacity
+	 */
+	applyTextStyle(element: HTMLElement, style: FileStyle, location: DecoratorLocation): void {
+		// Apply color via CSS custom property
+		if (style.color) {
+			element.style.setProperty("--frontmatter-color", style.color);
+			element.dataset.frontmatterColor = style.color;
+			this.applyDisplayMode(element, this.getDisplayMode(location));
+		} else {
+			element.style.removeProperty("--frontmatter-color");
+			delete element.dataset.frontmatterColor;
+			this.clearDisplayMode(element);
+		}
+
+		this.setCustomProperty(element, "--frontmatter-background", "has-frontmatter-background", style.background);
+		this.setCustomProperty(
+			element,
+			"--frontmatter-opacity",
+			"has-frontmatter-opacity",
+			style.opacity === null ? null : String(style.opacity)
+		);
+		element.classList.toggle("has-frontmatter-bold", style.bold === true);
+		element.classList.toggle("has-frontmatter-italic", style.italic === true);
+		element.classList.toggle("has-frontmatter-strikethrough", style.strikethrough === true);
+		this.applyCustomClasses(element, style.classes);
+	}
+
+	/**
+	 * Classes and CSS custom properties equivalent to applyTextStyle
+	 * Used where styles are rendered as attributes rather than applied to an element (editor decorations)
+	 */
+	getTextStyleAttributes(
+		style: FileStyle,
+		location: DecoratorLocation
+	): { classes: string[]; properties: Record<string, string> } {
+		const classes: string[] = [];
+		const properties: Record<string, string> = {};
+
+		if (style.color) {
+			properties["--frontmatter-color"] = style.color;
+			const mode = this.getDisplayMode(location);
+			if (mode === "text") {
+				classes.push("has-frontmatter-color");
+			} else {
+				classes.push("has-frontmatter-accent", `frontmatter-display-${mode}`);
+			}
+		}
+		if (style.background) {
+			properties["--frontmatter-background"] = style.background;
+			classes.push("has-frontmatter-background");
+		}
+		if (style.opacity !== null) {
+			properties["--frontmatter-opacity"] = String(style.opacity);
+			classes.push("has-frontmatter-opacity");
+		}
+		if (style.bold) classes.push("has-frontmatter-bold");
+		if (style.italic) classes.push("has-frontmatter-italic");
+		if (style.strikethrough) classes.push("has-frontmatter-strikethrough");
+		classes.push(...style.classes);
+
+		return { classes, properties };
+	}
+
+	/**
+	 * Get the configured display mode for a location
+	 */
+	private getDisplayMode(location: DecoratorLocation): DisplayMode {
+		const mode = this.plugin.settings.displayModes[location] ?? "text";
+		// The accent underline only exists for tab headers
+		if (mode === "underline" && location !== "tabHeader") {
+			return "text";
+		}
+		return mode;
+	}
+
+	/**
+	 * Render the color with the given display mode
+	 * Text mode colors the name itself; other modes draw an accent from --frontmatter-color
+	 */
+	private applyDisplayMode(element: HTMLElement, mode: DisplayMode): void {
+		this.clearDisplayMode(element);
+
+		if (mode === "text") {
+			element.classList.add("has-frontmatter-color");
+		} else {
+			element.classList.add("has-frontmatter-accent", `frontmatter-display-${mode}`);
+		}
+	}
+
+	/**
+	 * Remove any display mode classes from an element
+	 */
+	private clearDisplayMode(element: HTMLElement): void {
+		element.classList.remove("has-frontmatter-color", "has-frontmatter-accent");
+		for (const mode of Object.keys(DISPLAY_MODES)) {
+			element.classList.remove(`frontmatter-display-${mode}`);
+		}
+	}
+
+	/**
+	 * Replace the custom classes from the class field, remembering them so they can be removed later
+	 */
+	private applyCustomClasses(element: HTMLElement, classes: string[]): void {
+		const previous = element.dataset.frontmatterClasses?.split(" ") ?? [];
+		element.classList.remove(...previous);
+
+		if (classes.length > 0) {
+			element.classList.add(...classes);
+			element.dataset.frontmatterClasses = classes.join(" ");
+		} else {
+			delete element.dataset.frontmatterClasses;
+		}
+	}
+
+	/**
+	 * Set a CSS custom property and its marker class, or remove both when the value is unset
+	 */
+	private setCustomProperty(element: HTMLElement, property: string, className: string, value: string | null): void {
+		if (value) {
+			element.style.setProperty(property, value);
+			element.classList.add(className);
+		} else {
+			element.style.removeProperty(property);
+			element.classList.remove(className);
+		}
+	}
+
+	/**
+	 * Remove applied styles from an element
+	 */
+	removeStyle(element: HTMLElement): void {
+		const accentClass = this.plugin.styleDispatcher.getTracked(element)?.accentClass;
+		if (accentClass) {
+			element.classList.remove(accentClass);
+		}
+
+		element.style.removeProperty("--frontmatter-color");
+		this.clearDisplayMode(element);
+		delete element.dataset.frontmatterColor;
+
+		this.setCustomProperty(element, "--frontmatter-background", "has-frontmatter-background", null);
+		this.setCustomProperty(element, "--frontmatter-opacity", "has-frontmatter-opacity", null);
+		element.classList.remove(
+			"has-frontmatter-bold",
+			"has-frontmatter-italic",
+			"has-frontmatter-strikethrough"
+		);
+		this.applyCustomClasses(element, []);
+		delete element.dataset.frontmatterPath;
+
+		this.removeIcon(element);
+
+		this.styledElements.delete(element);
+		this.plugin.styleDispatcher.untrack(element);
+	}
+
+	/**
+	 * Remove the decoration a location left on an element that no longer shows a file,
+	 * e.g. a row recycled by virtual scrolling
+	 */
+	clearStyle(element: HTMLElement, location: DecoratorLocation): void {
+		// Leave elements decorated by other locations alone
+		if (this.plugin.styleDispatcher.getTracked(element)?.location === location) {
+			this.removeStyle(element);
+		}
+	}
+
+	/**
+	 * Apply an icon to an element, re-rendering only when the icon changed
+	 */
+	private applyIcon(element: HTMLElement, iconId: string): void {
+		// Check if icon container already exists (only our own, not one on a nested styled element)
+		const existingContainer = element.querySelector(
+			":scope > .frontmatter-icon"
+		);
+
+		let iconContainer: HTMLElement;
+		if (!existingContainer) {
+			iconContainer = element.ownerDocument.createElement("span");
+			iconContainer.classList.add("frontmatter-icon");
+			element.insertBefore(iconContainer, element.firstChild);
+		} else if (existingContainer?.instanceOf(HTMLElement)) {
+			iconContainer = existingContainer;
+		} else {
+			return;
+		}
+
+		if (iconContainer.dataset.icon === iconId && iconContainer.hasChildNodes()) {
+			return;
+		}
+		iconContainer.dataset.icon = iconId;
+		this.renderIcon(iconContainer, iconId);
+	}
+
+	/**
+	 * Remove the icon container if we added one
+	 */
+	private removeIcon(element: HTMLElement): void {
+		element.querySelector(":scope > .frontmatter-icon")?.remove();
+	}
+
+	/**
+	 * Render an icon into a container, replacing its contents
+	 */
+	renderIcon(iconContainer: HTMLElement, iconId: string): void {
+		// Clear existing icon
+		iconContainer.empty();
+
+		// Try to use Notebook Navigator's icon provider first
+		const nn = this.getNotebookNavigator();
+		if (nn) {
+			const success = this.applyIconWithNotebookNavigator(iconContainer, iconId, nn);
+			if (success) {
+				return;
+			}
+		}
+
+		// Fallback to native Obsidian setIcon for Lucide icons
+		const normalizedIcon = this.normalizeLucideIcon(iconId);
+		if (normalizedIcon) {
+			setIcon(iconContainer, normalizedIcon);
+		}
+	}
+
+	/**
+	 * Try to apply icon using Notebook Navigator's icon provider
+	 */
+	private applyIconWithNotebookNavigator(container: HTMLElement, iconId: string, nn: NotebookNavigatorPlugin): boolean {
+		try {
+			// Normalize the icon ID for Notebook Navigator
+			const normalizedIconId = this.normalizeIconIdForNN(iconId);
+
+			// Use externalIconController.iconService.renderIcon (the correct method)
+			if (nn.externalIconController?.iconService) {
+				const iconService = nn.externalIconController.iconService;
+
+				if (typeof iconService.renderIcon === "function") {
+					iconService.renderIcon(container, normalizedIconId);
+					if (container.childNodes.length > 0) {
+						return true;
+					}
+				}
+			}
+
+			return false;
+		} catch {
+			// Notebook Navigator icon provider not available, will fall back to Lucide
+			return false;
+		}
+	}
+
+	/**
+	 * Normalize icon ID for Notebook Navigator's icon service
+	 * Handles stripping redundant prefixes like 'ph-' from Phosphor icons
+	 */
+	private normalizeIconIdForNN(iconId: string): string {
+		if (!iconId) return iconId;
+
+		// Phosphor icons: strip 'ph-' prefix if present
+		// e.g., 'phosphor:ph-bridge' -> 'phosphor:bridge'
+		if (iconId.startsWith("phosphor:ph-")) {
+			return "phosphor:" + iconId.slice(12);
+		}
+
+		// Simple Icons: strip 'si-' prefix if present
+		// e.g., 'simple-icons:si-github' -> 'simple-icons:github'
+		if (iconId.startsWith("simple-icons:si-")) {
+			return "simple-icons:" + iconId.slice(16);
+		}
+
+		return iconId;
+	}
+
+	/**
+	 * Normalize Lucide icon ID to Obsidian's expected format
+	 */
+	private normalizeLucideIcon(iconId: string): string | null {
+		if (!iconId) return null;
+
+		// Already in lucide format (lucide-xxx)
+		if (iconId.startsWith("lucide-")) {
+			return iconId;
+		}
+
+		// Skip external icon formats - these need Notebook Navigator
+		if (iconId.includes(":")) {
+			return null;
+		}
+
+		// Assume it's a Lucide icon without prefix - add the prefix
+		return `lucide-${iconId}`;
+	}
+}
+
+// ============================================================================
+// Style Dispatcher
+// ============================================================================
+
+/**
+ * The file and location an element was decorated for
+ */
+interface TrackedElement {
+	filePath: string;
+	location: DecoratorLocation;
+	// Set for containers accented through StyleApplicator.applyAccent rather than styled
+	accentClass?: string;
+	// Held weakly so the index never keeps removed DOM alive
+	ref: WeakRef<HTMLElement>;
+}
+
+/**
+ * Shares one MutationObserver per window between all observers, batching added nodes per
+ * animation frame, and keeps a reverse index from file path to decorated elements so a
+ * changed file only re-styles its own elements
+ * Elements stay indexed while detached (recycled rows, reading view sections rendered before
+ * they're attached) and drop out once garbage collected
+ */
+class StyleDispatcher {
+	private plugin: FrontmatterDecoratorPlugin;
+	private observer: MutationObserver | null = null;
+	private observers: Map<string, DOMObserver> = new Map();
+	private frame: number | null = null;
+	// Work collected until the next animation frame
+	private pendingNodes: Set<HTMLElement> = new Set();
+	private pendingPaths: Set<string> = new Set();
+	// Decorated elements by file path, and what each element was decorated for
+	private elementsByPath: Map<string, Set<TrackedElement>> = new Map();
+	private tracked: WeakMap<HTMLElement, TrackedElement> = new WeakMap();
+	// Drops index entries of collected elements
+	private registry = new FinalizationRegistry<TrackedElement>((entry) => this.removeFromIndex(entry));
+
+	constructor(plugin: FrontmatterDecoratorPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Start dispatching DOM changes in every open window to the running observers
+	 * The map is read on every dispatch, so observers started or stopped later are picked up
+	 */
+	start(observers: Map<string, DOMObserver>): void {
+		this.observers = observers;
+		if (this.observer) return;
+
+		this.observer = new MutationObserver((mutations) => this.collect(mutations));
+		this.plugin.getDocuments().forEach((doc) => this.observe(doc));
+	}
+
+	stop(): void {
+		this.observer?.disconnect();
+		this.observer = null;
+		this.observers = new Map();
+
+		if (this.frame !== null) {
+			cancelAnimationFrame(this.frame);
+			this.frame = null;
+		}
+		this.pendingNodes.clear();
+		this.pendingPaths.clear();
+		this.elementsByPath.clear();
+		this.tracked = new WeakMap();
+	}
+
+	/**
+	 * Watch a window's DOM, e.g. a pop-out window that has just opened
+	 */
+	observe(doc: Document): void {
+		this.observer?.observe(doc.body, {
+			childList: true,
+			subtree: true,
+		});
+	}
+
+	/**
+	 * Stop watching a closing window and forget its elements, so its DOM isn't kept alive
+	 */
+	unobserve(closing: Document): void {
+		// A MutationObserver can't drop a single target, so re-observe the windows still open
+		if (this.observer) {
+			this.observer.disconnect();
+			this.plugin.getDocuments().forEach((doc) => this.observe(doc));
+		}
+
+		this.pendingNodes.forEach((node) => {
+			if (node.ownerDocument === closing) {
+				this.pendingNodes.delete(node);
+			}
+		});
+		this.forEachTracked((element) => {
+			if (element.ownerDocument === closing) {
+				this.untrack(element);
+			}
+		});
+	}
+
+	/**
+	 * Record that an element shows a file's style at a location
+	 */
+	track(element: HTMLElement, filePath: string, location: DecoratorLocation, accentClass?: string): void {
+		const previous = this.tracked.get(element);
+		if (previous) {
+			previous.location = location;
+			previous.accentClass = accentClass;
+			if (previous.filePath !== filePath) {
+				this.removeFromIndex(previous);
+				previous.filePath = filePath;
+				this.addToIndex(previous);
+			}
+			return;
+		}
+
+		const entry: TrackedElement = { filePath, location, accentClass, ref: new WeakRef(element) };
+		this.tracked.set(element, entry);
+		this.registry.register(element, entry, entry);
+		this.addToIndex(entry);
+	}
+
+	/**
+	 * What an element was last decorated for, if it is indexed
+	 */
+	getTracked(element: HTMLElement): TrackedElement | undefined {
+		return this.tracked.get(element);
+	}
+
+	/**
+	 * Remove every decoration a location applied, e.g. when it is turned off
+	 */
+	clearLocation(location: DecoratorLocation): void {
+		// Detached elements too, so nothing keeps a stale decoration if it's attached again
+		this.forEachTracked((element, entry) => {
+			if (entry.location === location) {
+				this.plugin.styleApplicator.removeStyle(element);
+			}
+		});
+	}
+
+	untrack(element: HTMLElement): void {
+		const previous = this.tracked.get(element);
+		if (previous) {
+			this.removeFromIndex(previous);
+			this.tracked.delete(element);
+			this.registry.unregister(previous);
+		}
+	}
+
+	/**
+	 * Re-style every tracked element on the next animation frame, e.g. after the style cache was cleared
+	 */
+	restyleAll(): void {
+		this.restyle(new Set(this.elementsByPath.keys()));
+	}
+
+	/**
+	 * Re-style the elements of files whose style changed, on the next animation frame
+	 */
+	restyle(paths: Set<string>): void {
+		paths.forEach((path) => this.pendingPaths.add(path));
+		this.schedule();
+	}
+
+	private collect(mutations: MutationRecord[]): void {
+		for (const mutation of mutations) {
+			mutation.addedNodes.forEach((node) => {
+				// Ignore our own icons so decorating doesn't feed back into another pass
+				if (node.instanceOf(HTMLElement) && !node.closest(".frontmatter-icon")) {
+					this.pendingNodes.add(node);
+				}
+			});
+		}
+
+		if (this.pendingNodes.size > 0) {
+			this.schedule();
+		}
+	}
+
+	private schedule(): void {
+		if (this.frame === null) {
+			this.frame = requestAnimationFrame(() => this.flush());
+		}
+	}
+
+	private flush(): void {
+		this.frame = null;
+
+		if (this.pendingPaths.size > 0) {
+			const paths = new Set(this.pendingPaths);
+			this.pendingPaths.clear();
+
+			this.forEachTracked((element, entry) => {
+				if (entry.accentClass) {
+					this.plugin.styleApplicator.applyAccent(element, entry.filePath, entry.location, entry.accentClass);
+				} else {
+					this.plugin.styleApplicator.applyStyle(element, entry.filePath, entry.location);
+				}
+			}, paths);
+			this.observers.forEach((observer) => observer.handleStyleChange(paths));
+		}
+
+		// Nodes added and removed again within the frame need no decoration
+		const nodes = Array.from(this.pendingNodes).filter((node) => node.isConnected);
+		this.pendingNodes.clear();
+		if (nodes.length > 0) {
+			this.observers.forEach((observer) => observer.handleAddedNodes(nodes));
+		}
+	}
+
+	/**
+	 * Call back for every tracked element that is still alive, optionally only for some paths
+	 * Iterates over copies, so the callback may untrack or re-track elements
+	 */
+	private forEachTracked(
+		callback: (element: HTMLElement, entry: TrackedElement) => void,
+		paths?: Set<string>
+	): void {
+		const keys = paths ? Array.from(paths) : Array.from(this.elementsByPath.keys());
+		keys.forEach((path) => {
+			const entries = this.elementsByPath.get(path);
+			if (!entries) return;
+
+			Array.from(entries).forEach((entry) => {
+				const element = entry.ref.deref();
+				if (element) {
+					callback(element, entry);
+				} else {
+					// Collected, but the registry hasn't caught up yet
+					this.removeFromIndex(entry);
+				}
+			});
+		});
+	}
+
+	private addToIndex(entry: TrackedElement): void {
+		let entries = this.elementsByPath.get(entry.filePath);
+		if (!entries) {
+			entries = new Set();
+			this.elementsByPath.set(entry.filePath, entries);
+		}
+		entries.add(entry);
+	}
+
+	private removeFromIndex(entry: TrackedElement): void {
+		const entries = this.elementsByPath.get(entry.filePath);
+		if (entries) {
+			entries.delete(entry);
+			if (entries.size === 0) {
+				this.elementsByPath.delete(entry.filePath);
+			}
+		}
+	}
+}
+
+// ============================================================================
+// DOM Observers
+// ============================================================================
+
+/**
+ * Base class for DOM observers
+ * Observers are components: loading starts them, and unloading stops them, detaches the events
+ * they registered and undoes their decorations
+ */
+abstract class DOMObserver extends Component {
+	protected plugin: FrontmatterDecoratorPlugin;
+	// False once unloaded, so delayed refreshes don't decorate again
+	protected active = false;
+
+	constructor(plugin: FrontmatterDecoratorPlugin) {
+		super();
+		this.plugin = plugin;
+	}
+
+	abstract start(): void;
+	abstract stop(): void;
+	abstract refresh(): void;
+
+	onload(): void {
+		this.active = true;
+		this.start();
+	}
+
+	onunload(): void {
+		this.active = false;
+		this.stop();
+	}
+
+	/**
+	 * Undo every decoration a location applied through StyleApplicator
+	 */
+	protected clearDecorations(location: DecoratorLocation): void {
+		this.plugin.styleDispatcher.clearLocation(location);
+	}
+
+	/**
+	 * Decorate elements added to the DOM since the last animation frame
+	 * Called by the shared StyleDispatcher; observers that don't depend on the DOM ignore it
+	 */
+	handleAddedNodes(_nodes: HTMLElement[]): void {
+		// Nothing to decorate by default
+	}
+
+	/**
+	 * Update decorations that aren't tracked in the dispatcher's index (graph nodes, editor widgets, ...)
+	 * Elements styled through StyleApplicator are re-styled by the dispatcher itself
+	 */
+	handleStyleChange(_paths: Set<string>): void {
+		// Nothing untracked by default
+	}
+
+	/**
+	 * Start decorating a pop-out window that has just opened
+	 */
+	attachWindow(_doc: Document): void {
+		this.refresh();
+	}
+
+	/**
+	 * Stop decorating a pop-out window that is closing
+	 */
+	detachWindow(_doc: Document): void {
+		// Nothing held per window by default
+	}
+}
+
+/**
+ * Hook a suggestion prototype's renderSuggestion so `after` runs once Obsidian has rendered each item
+ * Styling at render time survives the re-render on every keystroke without matching text in the DOM
+ * Returns a function that removes the hook
+ */
+function hookRenderSuggestion(
+	prototype: SuggestionRenderer,
+	after: (value: unknown, el: HTMLElement) => void
+): () => void {
+	const original = prototype.renderSuggestion;
+	let active = true;
+
+	const hooked = function (this: SuggestionRenderer, value: unknown, el: HTMLElement): void {
+		original.call(this, value, el);
+		if (active) {
+			after(value, el);
+		}
+	};
+	prototype.renderSuggestion = hooked;
+
+	return () => {
+		active = false;
+		// Only restore if nobody has wrapped our hook since; otherwise it just stays inert
+		if (prototype.renderSuggestion === hooked) {
+			prototype.renderSuggestion = original;
+		}
+	};
+}
+
+/**
+ * Find Obsidian's link suggester among the workspace's editor suggests
+ * Plugins register their own suggests too, so rather than trust its position, look for the
+ * suggest manager only the built-in one keeps. Nothing is called on the suggests
+ */
+function findLinkSuggest(workspace: WorkspaceWithEditorSuggest): EditorSuggestLike | null {
+	const suggests = workspace.editorSuggest?.suggests ?? [];
+	return (
+		suggests.find(
+			(suggest) =>
+				typeof suggest.renderSuggestion === "function" &&
+				typeof suggest.suggestManager?.getSuggestions === "function"
+		) ?? null
+	);
+}
+
+/**
+ * Get the file a suggestion item refers to, if any
+ * Quick switcher and link suggester items carry it as `file` (files, aliases, headings, ...)
+ */
+function getSuggestionFile(value: unknown): TFile | null {
+	if (value && typeof value === "object" && "file" in value) {
+		const file = (value as { file: unknown }).file;
+		if (file instanceof TFile) {
+			return file;
+		}
+	}
+	return null;
+}
+
+/**
+ * Observer for the File Explorer
+ */
+class FileExplorerObserver extends DOMObserver {
+	start(): void {
+		// Initial styling
+		this.refresh();
+	}
+
+	stop(): void {
+		this.clearDecorations("fileExplorer");
+	}
+
+	handleAddedNodes(nodes: HTMLElement[]): void {
+		// Virtual scrolling creates and destroys explorer items
+		nodes.forEach((node) => {
+			if (node.closest(".nav-files-container")) {
+				this.styleFileExplorerItem(node);
+			}
+		});
+	}
+
+	refresh(): void {
+		// Find all file items in the explorer of every window
+		this.plugin.getDocuments().forEach((doc) => {
+			const fileItems = doc.querySelectorAll(
+				".nav-file-title, .tree-item-self"
+			);
+			fileItems.forEach((item) => {
+				if (item.instanceOf(HTMLElement)) {
+					this.styleFileExplorerItem(item);
+				}
+			});
+		});
+	}
+
+	private styleFileExplorerItem(element: HTMLElement): void {
+		// Check if this is a file/folder item
+		if (
+			element.classList.contains("nav-file-title") ||
+			element.classList.contains("nav-folder-title") ||
+			element.classList.contains("tree-item-self")
+		) {
+			this.styleItem(element);
+		}
+
+		// Also check child elements
+		const childItems = element.querySelectorAll(
+			".nav-file-title, .nav-folder-title, .tree-item-self"
+		);
+		childItems.forEach((child) => {
+			if (child.instanceOf(HTMLElement)) {
+				this.styleItem(child);
+			}
+		});
+	}
+
+	private styleItem(item: HTMLElement): void {
+		// Find the text element to style
+		const textEl =
+			item.querySelector(".nav-file-title-content") ||
+			item.querySelector(".nav-folder-title-content") ||
+			item.querySelector(".tree-item-inner") ||
+			item;
+		if (!textEl.instanceOf(HTMLElement)) return;
+
+		const filePath = item.dataset.path;
+		const isFolder = item.classList.contains("nav-folder-title");
+
+		// A recycled row may no longer show a styled file: drop the previous file's decoration
+		if (!filePath || (isFolder && !this.plugin.settings.enableFolders)) {
+			this.plugin.styleApplicator.clearStyle(textEl, "fileExplorer");
+			return;
+		}
+
+		this.plugin.styleApplicator.applyStyle(textEl, filePath, "fileExplorer");
+	}
+}
+
+/**
+ * Observer for tab headers
+ */
+class TabHeaderObserver extends DOMObserver {
+	private isRefreshing = false;
+
+	start(): void {
+		this.refresh();
+
+		// Watch for tab changes
+		this.registerEvent(
+			this.plugin.app.workspace.on("layout-change", () => {
+				this.refresh();
+			})
+		);
+
+		this.registerEvent(
+			this.plugin.app.workspace.on("active-leaf-change", () => {
+				// Small delay to let Obsidian finish updating the tab
+				setTimeout(() => {
+					if (this.active) this.refresh();
+				}, 50);
+			})
+		);
+
+		// Watch for file opens (new tabs)
+		this.registerEvent(
+			this.plugin.app.workspace.on("file-open", () => {
+				// Delay to let tab render
+				setTimeout(() => {
+					if (this.active) this.refresh();
+				}, 100);
+			})
+		);
+
+	}
+
+	stop(): void {
+		this.clearDecorations("tabHeader");
+	}
+
+	handleAddedNodes(nodes: HTMLElement[]): void {
+		// Obsidian re-renders tab titles, e.g. after a rename
+		if (nodes.some((node) => node.closest(".workspace-tab-header-container"))) {
+			this.refresh();
+		}
+	}
+
+	refresh(): void {
+		// Guard against recursive calls
+		if (this.isRefreshing) return;
+		this.isRefreshing = true;
+
+		try {
+			// Style every tab showing a file (notes, canvases, bases, PDFs, ...), not sidebar tabs like Files, Search
+			this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+				const tabHeaderEl = (leaf as WorkspaceLeafWithTabHeader).tabHeaderEl;
+				if (!tabHeaderEl) return;
+
+				// A leaf that moved to "New tab", Graph, ... keeps its title element
+				const file = leaf.view instanceof FileView ? leaf.view.file : null;
+				this.styleTabHeader(tabHeaderEl, file);
+			});
+		} finally {
+			this.isRefreshing = false;
+		}
+	}
+
+	private styleTabHeader(tabElement: HTMLElement, file: TFile | null): void {
+		const titleEl = tabElement.querySelector(".workspace-tab-header-inner-title");
+		if (!titleEl?.instanceOf(HTMLElement)) return;
+
+		// Reconciles in place, including when the leaf now shows a different file or none
+		if (file) {
+			this.plugin.styleApplicator.applyStyle(titleEl, file.path, "tabHeader");
+		} else {
+			this.plugin.styleApplicator.clearStyle(titleEl, "tabHeader");
+		}
+	}
+}
+
+/**
+ * Styles the open note's own title: the view header title, the inline title and
+ * the titles shown in page-preview hover popovers
+ */
+class NoteTitleObserver extends DOMObserver {
+	// Hover popovers and the file they preview; recorded by the markdown post-processor
+	private popovers: Map<HTMLElement, string> = new Map();
+
+	start(): void {
+		this.refresh();
+
+		this.registerEvent(
+			this.plugin.app.workspace.on("layout-change", () => {
+				this.refresh();
+			})
+		);
+
+		// Obsidian re-renders the titles when a file is opened in an existing leaf
+		this.registerEvent(
+			this.plugin.app.workspace.on("file-open", () => {
+				// Delay to let the view update its header
+				setTimeout(() => {
+					if (this.active) this.refresh();
+				}, 100);
+			})
+		);
+	}
+
+	stop(): void {
+		this.popovers.clear();
+		this.clearDecorations("noteTitle");
+	}
+
+	refresh(): void {
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			if (!(leaf.view instanceof FileView) || !leaf.view.file) return;
+
+			const filePath = leaf.view.file.path;
+			leaf.view.containerEl
+				.querySelectorAll(".view-header-title, .inline-title")
+				.forEach((titleEl) => {
+					if (titleEl.instanceOf(HTMLElement)) {
+						this.styleTitle(titleEl, filePath);
+					}
+				});
+		});
+
+		this.popovers.forEach((filePath, popover) => {
+			if (popover.isConnected) {
+				this.decoratePopover(popover, filePath);
+			} else {
+				this.popovers.delete(popover);
+			}
+		});
+	}
+
+	/**
+	 * Style the title of a hover popover previewing filePath
+	 * The first file recorded for a popover wins, so notes embedded in the preview can't replace it
+	 */
+	decoratePopover(popover: HTMLElement, filePath: string): void {
+		const previewPath = this.popovers.get(popover) ?? filePath;
+		this.popovers.set(popover, previewPath);
+
+		popover.querySelectorAll(".inline-title, .markdown-embed-title").forEach((titleEl) => {
+			// Titles of embedded notes belong to those notes
+			const embed = titleEl.closest(".internal-embed");
+			if (titleEl.instanceOf(HTMLElement) && !(embed && popover.contains(embed))) {
+				this.styleTitle(titleEl, previewPath);
+			}
+		});
+	}
+
+	private styleTitle(titleEl: HTMLElement, filePath: string): void {
+		this.plugin.styleApplicator.applyStyle(titleEl, filePath, "noteTitle");
+
+		// Titles become editable on rename; keep the icon out of the editable text
+		const iconEl = titleEl.querySelector(":scope > .frontmatter-icon");
+		if (iconEl?.instanceOf(HTMLElement)) {
+			iconEl.contentEditable = "false";
+		}
+	}
+}
+
+/**
+ * Styles the Quick Switcher (Ctrl/Cmd+O) by hooking its modal's rendering
+ */
+class QuickSwitcherObserver extends DOMObserver {
+	private unhook: (() => void) | null = null;
+
+	start(): void {
+		const switcher = (this.plugin.app as AppWithPlugins).internalPlugins?.getPluginById?.("switcher");
+		const prototype = (switcher?.instance as QuickSwitcherPluginInstance | undefined)?.QuickSwitcherModal?.prototype;
+		if (!prototype || typeof prototype.renderSuggestion !== "function") {
+			return;
+		}
+
+		this.unhook = hookRenderSuggestion(prototype, (value, el) => this.styleSuggestion(value, el));
+	}
+
+	stop(): void {
+		this.unhook?.();
+		this.unhook = null;
+		this.clearDecorations("quickSwitcher");
+	}
+
+	refresh(): void {
+		// Suggestions are styled as they render, and the modal re-renders on every keystroke
+	}
+
+	private styleSuggestion(value: unknown, el: HTMLElement): void {
+		const file = getSuggestionFile(value);
+		if (!file) return;
+
+		const titleEl = el.querySelector(".suggestion-title");
+		this.plugin.styleApplicator.applyStyle(
+			titleEl?.instanceOf(HTMLElement) ? titleEl : el,
+			file.path,
+			"quickSwitcher"
+		);
+	}
+}
+
+/**
+ * Styles the link suggester (typing `[[`) by hooking the editor suggest's rendering
+ * Alias, heading and block suggestions carry their target file, so they resolve correctly too
+ */
+class LinkSuggesterObserver extends DOMObserver {
+	private unhook: (() => void) | null = null;
+
+	start(): void {
+		// Without a recognizable link suggester, leave every suggest alone
+		const linkSuggest = findLinkSuggest(this.plugin.app.workspace as WorkspaceWithEditorSuggest);
+		if (!linkSuggest) {
+			console.warn("Frontmatter Decorator: couldn't find Obsidian's link suggester; link suggestions won't be styled");
+			return;
+		}
+
+		this.unhook = hookRenderSuggestion(linkSuggest, (value, el) => this.styleSuggestion(value, el));
+	}
+
+	stop(): void {
+		this.unhook?.();
+		this.unhook = null;
+		this.clearDecorations("linkSuggester");
+	}
+
+	refresh(): void {
+		// Suggestions are styled as they render, and the popover re-renders on every keystroke
+	}
+
+	private styleSuggestion(value: unknown, el: HTMLElement): void {
+		const file = getSuggestionFile(value);
+		if (!file) return;
+
+		const titleEl = el.querySelector(".suggestion-title");
+		this.plugin.styleApplicator.applyStyle(
+			titleEl?.instanceOf(HTMLElement) ? titleEl : el,
+			file.path,
+			"linkSuggester"
+		);
+	}
+}
+
+/**
+ * Base class for side panes that list files as tree items (Backlinks, Search, Bookmarks, ...)
+ * Items are resolved to files from data-path attributes, falling back to their title text
+ */
+abstract class FilePaneObserver extends DOMObserver {
+	// Title elements to style, anywhere in the document
+	protected abstract readonly itemSelector: string;
+	protected abstract readonly location: DecoratorLocation;
+
+	start(): void {
+		this.refresh();
+
+		// Watch for layout changes (the pane might be opened)
+		this.registerEvent(
+			this.plugin.app.workspace.on("layout-change", () => {
+				this.refresh();
+			})
+		);
+
+	}
+
+	stop(): void {
+		this.clearDecorations(this.location);
+	}
+
+	refresh(): void {
+		this.plugin.getDocuments().forEach((doc) => this.styleItemsWithin(doc));
+	}
+
+	handleAddedNodes(nodes: HTMLElement[]): void {
+		// The panes re-render their results as they update
+		nodes.forEach((node) => {
+			if (node.matches(this.itemSelector)) {
+				this.styleItem(node);
+			}
+			this.styleItemsWithin(node);
+		});
+	}
+
+	private styleItemsWithin(root: ParentNode): void {
+		const items = root.querySelectorAll(this.itemSelector);
+		items.forEach((item) => {
+			if (item.instanceOf(HTMLElement)) {
+				this.styleItem(item);
+			}
+		});
+	}
+
+	private styleItem(element: HTMLElement): void {
+		const filePath = this.resolveItemPath(element);
+		if (filePath) {
+			this.plugin.styleApplicator.applyStyle(element, filePath, this.location);
+		} else {
+			this.plugin.styleApplicator.clearStyle(element, this.location);
+		}
+	}
+
+	/**
+	 * Find the file an item refers to
+	 */
+	protected resolveItemPath(element: HTMLElement): string | null {
+		// Try data-path attribute
+		if (element.dataset.path) {
+			return element.dataset.path;
+		}
+
+		// Try to get from parent element
+		const parent = element.closest("[data-path]");
+		if (parent?.instanceOf(HTMLElement) && parent.dataset.path) {
+			return parent.dataset.path;
+		}
+
+		// Try to get from text content
+		const text = element.textContent?.trim();
+		return text ? this.plugin.linkResolver.resolveName(text, this.getSourcePath(element)) : null;
+	}
+
+	/**
+	 * The note to resolve item names against: the note a pane is embedded in, else the active note,
+	 * which the backlinks and outgoing links panes describe
+	 */
+	protected getSourcePath(element: HTMLElement): string {
+		return (
+			this.plugin.linkResolver.getSourcePath(element) || this.plugin.app.workspace.getActiveFile()?.path || ""
+		);
+	}
+}
+
+/**
+ * Observer for the Backlinks pane
  */
-abstract class DOMObserver {
-	protected plugin: FrontmatterDecoratorPlugin;
-	protected observer: MutationObserver | null = null;
-
-	constructor(plugin: FrontmatterDecoratorPlugin) {
-		this.plugin = plugin;
-	}
+class BacklinksObserver extends FilePaneObserver {
+	// Backlinks can appear in multiple locations
+	protected readonly itemSelector =
+		".backlink-pane .tree-item-self, " +
+		".backlink-pane .search-result-file-title, " +
+		"[data-type='backlink'] .tree-item-self, " +
+		"[data-type='backlink'] .search-result-file-title, " +
+		".backlink-pane .tree-item-inner";
+	protected readonly location = "backlinks";
+}
 
-	abstract start(): void;
-	abstract stop(): void;
-	abstract refresh(): void;
+/**
+ * Observer for the core Search results pane
+ */
+class SearchObserver extends FilePaneObserver {
+	protected readonly itemSelector =
+		".workspace-leaf-content[data-type='search'] .search-result-file-title .tree-item-inner";
+	protected readonly location = "search";
 }
 
 /**
- * Observer for the File Explorer
+ * Observer for the Outgoing links pane
  */
-class FileExplorerObserver extends DOMObserver {
-	start(): void {
-		// Initial styling
-		this.refresh();
+class OutgoingLinksObserver extends FilePaneObserver {
+	protected readonly itemSelector =
+		".workspace-leaf-content[data-type='outgoing-link'] .search-result-file-title .tree-item-inner";
+	protected readonly location = "outgoingLinks";
+}
 
-		// Watch for DOM changes (virtual scrolling creates/destroys elements)
-		this.observer = new MutationObserver((mutations) => {
-			for (const mutation of mutations) {
-				if (mutation.type === "childList") {
-					mutation.addedNodes.forEach((node) => {
-						if (node instanceof HTMLElement) {
-							this.styleFileExplorerItem(node);
-						}
-					});
-				}
-			}
-		});
+/**
+ * Observer for the Bookmarks pane
+ * Bookmark rows carry no path, so titles are matched against the bookmarks plugin's items
+ */
+class BookmarksObserver extends FilePaneObserver {
+	protected readonly itemSelector =
+		".workspace-leaf-content[data-type='bookmarks'] .tree-item-self .tree-item-inner";
+	protected readonly location = "bookmarks";
 
-		// Find the file explorer container
-		const fileExplorer = document.querySelector(".nav-files-container");
-		if (fileExplorer) {
-			this.observer.observe(fileExplorer, {
-				childList: true,
-				subtree: true,
-			});
-		}
-	}
+	/**
+	 * Bookmark rows carry no path, so only the bookmarks plugin's own items identify them
+	 * Rows matching none (groups, searches, headings, ...) aren't notes, even if a note shares their title
+	 */
+	protected resolveItemPath(element: HTMLElement): string | null {
+		const title = element.textContent?.trim();
+		if (!title) return null;
 
-	stop(): void {
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observer = null;
-		}
+		return this.findBookmarkPath(title, this.getBookmarkItems());
 	}
 
-	refresh(): void {
-		// Find all file items in the explorer
-		const fileItems = document.querySelectorAll(
-			".nav-file-title, .tree-item-self"
-		);
-		fileItems.forEach((item) => {
-			if (item instanceof HTMLElement) {
-				this.styleFileExplorerItem(item);
-			}
-		});
+	private getBookmarkItems(): BookmarkItem[] {
+		const bookmarks = (this.plugin.app as AppWithPlugins).internalPlugins?.getPluginById?.("bookmarks");
+		return (bookmarks?.instance as { items?: BookmarkItem[] } | undefined)?.items ?? [];
 	}
 
-	private styleFileExplorerItem(element: HTMLElement): void {
-		// Check if this is a file item or contains file items
-		if (
-			element.classList.contains("nav-file-title") ||
-			element.classList.contains("tree-item-self")
-		) {
-			const filePath = element.dataset.path;
-			if (filePath && filePath.endsWith(".md")) {
-				// Find the text element to style
-				const textEl =
-					element.querySelector(".nav-file-title-content") ||
-					element.querySelector(".tree-item-inner") ||
-					element;
-				if (textEl instanceof HTMLElement) {
-					this.plugin.styleApplicator.applyStyle(textEl, filePath);
+	/**
+	 * Find the file or folder bookmark displayed with this title, searching groups recursively
+	 */
+	private findBookmarkPath(title: string, items: BookmarkItem[]): string | null {
+		for (const item of items) {
+			if (item.type === "group") {
+				const path = this.findBookmarkPath(title, item.items ?? []);
+				if (path) return path;
+			} else if ((item.type === "file" || item.type === "folder") && item.path && !item.subpath) {
+				// Bookmarks show their custom title, else the file's basename
+				const name = item.path.split("/").pop()?.replace(/\.md$/, "");
+				if ((item.title || name) === title) {
+					return item.path;
 				}
 			}
 		}
-
-		// Also check child elements
-		const childFileItems = element.querySelectorAll(
-			".nav-file-title, .tree-item-self"
-		);
-		childFileItems.forEach((child) => {
-			if (child instanceof HTMLElement) {
-				const filePath = child.dataset.path;
-				if (filePath && filePath.endsWith(".md")) {
-					const textEl =
-						child.querySelector(".nav-file-title-content") ||
-						child.querySelector(".tree-item-inner") ||
-						child;
-					if (textEl instanceof HTMLElement) {
-						this.plugin.styleApplicator.applyStyle(textEl, filePath);
-					}
-				}
-			}
-		});
+		return null;
 	}
 }
 
 /**
- * Observer for tab headers
+ * Observer for the Recent Files community plugin's pane
  */
-class TabHeaderObserver extends DOMObserver {
-	private isRefreshing = false;
+class RecentFilesObserver extends FilePaneObserver {
+	protected readonly itemSelector =
+		".workspace-leaf-content[data-type='recent-files'] .nav-file-title-content";
+	protected readonly location = "recentFiles";
+}
 
+/**
+ * Observer for Obsidian Bases (database views)
+ */
+class BasesObserver extends DOMObserver {
 	start(): void {
 		this.refresh();
 
-		// Watch for tab changes
-		this.plugin.registerEvent(
+		// Watch for Bases view changes
+		this.registerEvent(
 			this.plugin.app.workspace.on("layout-change", () => {
 				this.refresh();
 			})
 		);
 
-		this.plugin.registerEvent(
+		this.registerEvent(
 			this.plugin.app.workspace.on("active-leaf-change", () => {
-				// Small delay to let Obsidian finish updating the tab
-				setTimeout(() => this.refresh(), 50);
-			})
-		);
-
-		// Watch for file opens (new tabs)
-		this.plugin.registerEvent(
-			this.plugin.app.workspace.on("file-open", () => {
-				// Delay to let tab render
-				setTimeout(() => this.refresh(), 100);
+				setTimeout(() => {
+					if (this.active) this.refresh();
+				}, 100);
 			})
 		);
 
-		// Also observe DOM changes for tabs (but guard against our own changes)
-		this.observer = new MutationObserver(() => {
-			if (!this.isRefreshing) {
-				this.refresh();
-			}
-		});
-
-		const tabContainers = document.querySelectorAll(".workspace-tab-header-container");
-		tabContainers.forEach((container) => {
-			this.observer?.observe(container, {
-				childList: true,
-				subtree: true,
-			});
-		});
 	}
 
 	stop(): void {
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observer = null;
-		}
+		this.clearDecorations("bases");
 	}
 
-	refresh(): void {
-		// Guard against recursive calls
-		if (this.isRefreshing) return;
-		this.isRefreshing = true;
+	handleAddedNodes(nodes: HTMLElement[]): void {
+		// Bases views render their rows lazily, in any leaf
+		nodes.forEach((node) => {
+			if (!node.closest('[data-type="bases"], .bases-view')) return;
 
-		try {
-			// Style only markdown note tabs (not sidebar tabs like Files, Search)
-			const tabHeaders = document.querySelectorAll('.workspace-tab-header[data-type="markdown"]');
-			tabHeaders.forEach((tab) => {
-				if (tab instanceof HTMLElement) {
-					this.styleTabHeader(tab);
-				}
-			});
-		} finally {
-			this.isRefreshing = false;
-		}
+			if (node.matches(".internal-link, [data-path], .tree-item-self")) {
+				this.styleBasesLink(node);
+			}
+			this.styleBasesView(node);
+		});
 	}
 
-	private styleTabHeader(tabElement: HTMLElement): void {
-		// Get the file name from aria-label attribute
-		const ariaLabel = tabElement.getAttribute("aria-label");
-		if (!ariaLabel) return;
-
-		const titleEl = tabElement.querySelector(".workspace-tab-header-inner-title");
-		if (!(titleEl instanceof HTMLElement)) return;
+	refresh(): void {
+		// Bases uses various elements for file references
+		// Look for file links within Bases views
+		this.plugin.getDocuments().forEach((doc) => {
+			const basesViews = doc.querySelectorAll('[data-type="bases"], .bases-view');
 
-		// Find the file by basename
-		const files = this.plugin.app.vault.getMarkdownFiles();
-		const file = files.find((f) => f.basename === ariaLabel);
+			basesViews.forEach((view) => {
+				if (view.instanceOf(HTMLElement)) {
+					this.styleBasesView(view);
+				}
+			});
 
-		if (!file) return;
+			// Also check for Bases table cells with file references
+			const basesFileLinks = doc.querySelectorAll(
+				".bases-cell-file, .bases-file-link, .bases-row .internal-link"
+			);
+			basesFileLinks.forEach((link) => {
+				if (link.instanceOf(HTMLElement)) {
+					this.styleBasesLink(link);
+				}
+			});
+		});
+	}
 
-		// Get the expected style for this file
-		const style = this.plugin.styleCache.getStyle(file.path);
+	private styleBasesView(view: HTMLElement): void {
+		// Find all file references within the Bases view
+		const fileLinks = view.querySelectorAll(
+			".internal-link, [data-path], .tree-item-self"
+		);
+		fileLinks.forEach((link) => {
+			if (link.instanceOf(HTMLElement)) {
+				this.styleBasesLink(link);
+			}
+		});
+	}
 
-		// Check if icon container exists (might have been removed by Obsidian)
-		const hasIconContainer = titleEl.querySelector(".frontmatter-icon") !== null;
-		const needsIcon = style.icon !== null;
+	private styleBasesLink(element: HTMLElement): void {
+		let filePath: string | null = null;
 
-		// Skip only if fully styled (data attribute matches AND icon state is correct)
-		if (titleEl.dataset.frontmatterStyledFor === ariaLabel) {
-			// If we need an icon but don't have one, re-apply
-			if (needsIcon && !hasIconContainer) {
-				// Icon was removed, need to re-apply
-			} else {
-				return;
+		// Try data-path attribute
+		if (element.dataset.path) {
+			filePath = element.dataset.path;
+		}
+		// Try href attribute, relative to the base file
+		else if (element.getAttribute("href")) {
+			const href = element.getAttribute("href");
+			if (href) {
+				filePath = this.plugin.linkResolver.resolveLink(href, this.plugin.linkResolver.getSourcePath(element));
 			}
 		}
+		// Try text content as file name
+		else if (element.textContent) {
+			const text = element.textContent.trim();
+			filePath = this.plugin.linkResolver.resolveName(text, this.plugin.linkResolver.getSourcePath(element));
+		}
 
-		titleEl.dataset.frontmatterStyledFor = ariaLabel;
-		this.plugin.styleApplicator.applyStyle(titleEl, file.path);
+		if (filePath) {
+			this.plugin.styleApplicator.applyStyle(element, filePath, "bases");
+		} else {
+			this.plugin.styleApplicator.clearStyle(element, "bases");
+		}
 	}
 }
 
 /**
- * Observer for the Quick Switcher and Suggester
+ * Decorates rendered internal links and embeds (Reading View, rendered blocks in Live Preview,
+ * hover popovers and PDF export). New content is decorated by the plugin's markdown post-processor
+ * as it renders; refresh() re-decorates what is already on screen.
  */
-class SuggesterObserver extends DOMObserver {
+class ReadingViewLinksObserver extends DOMObserver {
 	start(): void {
-		// Watch for suggestion popups
-		this.observer = new MutationObserver((mutations) => {
-			for (const mutation of mutations) {
-				if (mutation.type === "childList") {
-					mutation.addedNodes.forEach((node) => {
-						if (node instanceof HTMLElement) {
-							this.checkForSuggestions(node);
-						}
-					});
-				} else if (mutation.type === "characterData") {
-					// Text content changed - re-style parent suggestion item if found
-					const suggestionItem = mutation.target.parentElement?.closest('.suggestion-item');
-					if (suggestionItem instanceof HTMLElement) {
-						// Clear the styled marker to force re-styling
-						const titleEl = suggestionItem.querySelector('.suggestion-title');
-						if (titleEl instanceof HTMLElement) {
-							delete titleEl.dataset.frontmatterStyledFor;
-						}
-						this.styleSuggestionItem(suggestionItem);
-					}
-				}
-			}
-		});
-
-		this.observer.observe(document.body, {
-			childList: true,
-			subtree: true,
-			characterData: true,  // Watch for text content changes
-		});
+		this.refresh();
 	}
 
 	stop(): void {
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observer = null;
-		}
+		// The post-processor checks whether this observer is active, so only decorations need undoing
+		this.clearDecorations("editorLinks");
 	}
 
 	refresh(): void {
-		// Check for any existing suggestion containers
-		const suggestionContainers = document.querySelectorAll(
-			".suggestion-container, .prompt-results, .prompt"
-		);
-		suggestionContainers.forEach((container) => {
-			if (container instanceof HTMLElement) {
-				this.styleSuggestions(container);
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			if (leaf.view instanceof MarkdownView && leaf.view.file) {
+				this.decorate(leaf.view.contentEl, leaf.view.file.path);
 			}
 		});
 	}
 
-	private checkForSuggestions(element: HTMLElement): void {
-		// Check if this is a suggestion container or prompt
-		if (
-			element.classList.contains("suggestion-container") ||
-			element.classList.contains("prompt-results") ||
-			element.classList.contains("prompt") ||
-			element.classList.contains("suggestion") ||
-			element.classList.contains("suggestion-item")
-		) {
-			this.styleSuggestions(element);
-		}
-
-		// Check for suggestion containers within the element
-		const containers = element.querySelectorAll(
-			".suggestion-container, .prompt-results, .prompt"
-		);
-		containers.forEach((container) => {
-			if (container instanceof HTMLElement) {
-				this.styleSuggestions(container);
+	/**
+	 * Decorate links and embeds inside rendered markdown, resolving them relative to sourcePath
+	 */
+	decorate(el: HTMLElement, sourcePath: string): void {
+		// Links anywhere in the section, including callout titles and bodies
+		el.querySelectorAll("a.internal-link").forEach((link) => {
+			if (!link.instanceOf(HTMLElement)) return;
+
+			const filePath = this.plugin.linkResolver.resolveLink(
+				link.dataset.href ?? link.getAttribute("href"),
+				sourcePath
+			);
+			if (filePath) {
+				this.plugin.styleApplicator.applyStyle(link, filePath, "editorLinks");
 			}
 		});
 
-		// Also check for individual suggestion items
-		const suggestions = element.querySelectorAll(".suggestion-item");
-		suggestions.forEach((suggestion) => {
-			if (suggestion instanceof HTMLElement) {
-				this.styleSuggestionItem(suggestion);
+		// Embeds (![[note]]): accent the embed and style its title once loaded
+		el.querySelectorAll(".internal-embed[src]").forEach((embed) => {
+			if (!embed.instanceOf(HTMLElement)) return;
+
+			const filePath = this.plugin.linkResolver.resolveLink(embed.getAttribute("src"), sourcePath);
+			if (!filePath) return;
+
+			this.plugin.styleApplicator.applyAccent(embed, filePath, "editorLinks", "frontmatter-embed");
+
+			const titleEl = embed.querySelector(".markdown-embed-title, .file-embed-title");
+			if (titleEl?.instanceOf(HTMLElement)) {
+				this.plugin.styleApplicator.applyStyle(titleEl, filePath, "editorLinks");
 			}
 		});
 	}
+}
 
-	private styleSuggestions(container: HTMLElement): void {
-		const suggestions = container.querySelectorAll(".suggestion-item");
-		suggestions.forEach((suggestion) => {
-			if (suggestion instanceof HTMLElement) {
-				this.styleSuggestionItem(suggestion);
-			}
-		});
+/**
+ * Decorates file cards on canvases with the embedded note's icon and color
+ */
+class CanvasObserver extends DOMObserver {
+	start(): void {
+		this.refresh();
+
+		this.registerEvent(
+			this.plugin.app.workspace.on("layout-change", () => {
+				this.refresh();
+			})
+		);
 	}
 
-	private styleSuggestionItem(suggestion: HTMLElement): void {
-		// Find the title element - this is where we'll apply styles
-		const titleEl = suggestion.querySelector(".suggestion-title");
-		if (!(titleEl instanceof HTMLElement)) {
-			return;
-		}
+	stop(): void {
+		this.clearDecorations("canvas");
+	}
 
-		let filePath: string | null = null;
-		let pathIdentifier: string | null = null;
-
-		// Try data-path attribute first (most reliable if present)
-		if (suggestion.dataset.path) {
-			filePath = suggestion.dataset.path;
-			pathIdentifier = suggestion.dataset.path;
-		}
-		// Built-in Quick Switcher: .suggestion-title contains the path directly
-		// e.g., "_/Task List" or "Projects/Other/Books To Read"
-		else {
-			// Get the text content directly (no icon elements since we don't add them in quick switcher)
-			const titleText = titleEl.textContent?.trim() || "";
-
-			if (titleText) {
-				pathIdentifier = titleText;
-
-				// The title often IS the path (without .md extension)
-				let possiblePath = titleText;
-				if (!possiblePath.endsWith(".md")) {
-					possiblePath = possiblePath + ".md";
-				}
+	refresh(): void {
+		this.getCanvasNodes().forEach((node) => this.styleCanvasNode(node));
+	}
 
-				// Verify this file exists
-				const file = this.plugin.app.vault.getAbstractFileByPath(possiblePath);
-				if (file instanceof TFile) {
-					filePath = file.path;
-				} else {
-					// Try to find by basename if full path didn't work
-					const files = this.plugin.app.vault.getMarkdownFiles();
-					const matchingFile = files.find(
-						(f) => f.basename === titleText || f.path === possiblePath
-					);
-					if (matchingFile) {
-						filePath = matchingFile.path;
-					}
-				}
-			}
+	handleAddedNodes(nodes: HTMLElement[]): void {
+		// Canvas nodes are added, removed and re-rendered while editing
+		if (nodes.some((node) => node.closest(".workspace-leaf-content[data-type='canvas']"))) {
+			this.refresh();
 		}
+	}
 
-		if (!filePath || !pathIdentifier) {
-			return;
-		}
+	private getCanvasNodes(): CanvasNode[] {
+		const nodes: CanvasNode[] = [];
+		this.plugin.app.workspace.getLeavesOfType("canvas").forEach((leaf) => {
+			(leaf.view as CanvasView).canvas?.nodes?.forEach((node) => nodes.push(node));
+		});
+		return nodes;
+	}
 
-		// Skip if already styled for this path
-		if (titleEl.dataset.frontmatterStyledFor === pathIdentifier) {
-			return;
-		}
+	private styleCanvasNode(node: CanvasNode): void {
+		if (!node.file || !node.nodeEl) return;
 
-		// Mark as styled for this specific path
-		titleEl.dataset.frontmatterStyledFor = pathIdentifier;
+		// Accent the card border with the note's color
+		if (this.plugin.settings.canvasNodeBorder) {
+			this.plugin.styleApplicator.applyAccent(node.nodeEl, node.file.path, "canvas", "frontmatter-canvas-node");
+		} else {
+			this.plugin.styleApplicator.clearStyle(node.nodeEl, "canvas");
+		}
 
-		// Apply ONLY color styling (no icons) - only updates if color changed
-		// Note: Currently disabled - see applyStyleColorOnly method
-		this.plugin.styleApplicator.applyStyleColorOnly(titleEl, filePath);
+		// Icon and color in the card label
+		const labelEl = node.nodeEl.querySelector(".canvas-node-label");
+		if (labelEl?.instanceOf(HTMLElement)) {
+			this.plugin.styleApplicator.applyStyle(labelEl, node.file.path, "canvas");
+		}
 	}
 }
 
 /**
- * Observer for the Backlinks pane
+ * Tints graph view nodes (global and local graphs) with each note's color
+ * Nodes are recreated whenever the graph data changes, so the renderer's setData is hooked
  */
-class BacklinksObserver extends DOMObserver {
+class GraphObserver extends DOMObserver {
+	// Hooked renderers and the setData hook installed on each
+	private renderers: Map<GraphRenderer, OverriddenProperty<GraphRenderer["setData"]>> = new Map();
+	// Nodes whose fill color we overrode, and the fill color each had before
+	private coloredNodes: Map<GraphNode, OverriddenProperty<GraphNode["getFillColor"]>> = new Map();
+	// Numeric colors for the graph's PIXI renderer, by CSS color
+	private rgbCache: Map<string, number | null> = new Map();
+
 	start(): void {
 		this.refresh();
 
-		// Watch for layout changes (backlinks pane might be opened)
-		this.plugin.registerEvent(
+		// Graph views can be opened at any time
+		this.registerEvent(
 			this.plugin.app.workspace.on("layout-change", () => {
 				this.refresh();
 			})
 		);
+	}
 
-		// Watch for backlinks pane changes
-		this.observer = new MutationObserver(() => {
-			this.refresh();
-		});
+	stop(): void {
+		for (const [renderer, hook] of this.renderers) {
+			restoreProperty(renderer, "setData", hook);
+			renderer.changed?.();
+		}
+		this.renderers.clear();
 
-		// Try to observe any backlink panes
-		this.observeBacklinkPanes();
+		this.coloredNodes.forEach((fillColor, node) => restoreProperty(node, "getFillColor", fillColor));
+		this.coloredNodes.clear();
 	}
 
-	private observeBacklinkPanes(): void {
-		// Backlinks can appear in multiple locations
-		const backlinkPanes = document.querySelectorAll(
-			".backlink-pane, [data-type='backlink'], .workspace-leaf-content[data-type='backlink']"
-		);
-		backlinkPanes.forEach((pane) => {
-			this.observer?.observe(pane, {
-				childList: true,
-				subtree: true,
-			});
-		});
+	refresh(): void {
+		// Styles may have changed (theme switch, palette edit), so don't reuse converted colors
+		this.rgbCache.clear();
+
+		for (const type of ["graph", "localgraph"]) {
+			for (const leaf of this.plugin.app.workspace.getLeavesOfType(type)) {
+				const renderer = (leaf.view as View & { renderer?: GraphRenderer }).renderer;
+				if (renderer) {
+					this.hookRenderer(renderer);
+					this.colorNodes(renderer);
+				}
+			}
+		}
 	}
 
-	stop(): void {
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observer = null;
+	handleStyleChange(paths: Set<string>): void {
+		// Node fill colors aren't tracked by the dispatcher; recolor the changed nodes of graphs already hooked
+		this.renderers.forEach((_hook, renderer) => this.colorNodes(renderer, paths));
+	}
+
+	private hookRenderer(renderer: GraphRenderer): void {
+		if (this.renderers.has(renderer) || typeof renderer.setData !== "function") {
+			return;
 		}
+
+		const original = renderer.setData;
+		const hook = (...args: unknown[]): void => {
+			original.apply(renderer, args);
+			this.colorNodes(renderer);
+		};
+		this.renderers.set(renderer, overrideProperty(renderer, "setData", hook));
 	}
 
-	refresh(): void {
-		// Re-observe in case new panes appeared
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observeBacklinkPanes();
+	/**
+	 * Color a graph's nodes, or only those of the given paths; the graph redraws only if any were colored
+	 */
+	private colorNodes(renderer: GraphRenderer, paths?: Set<string>): void {
+		let colored = !paths;
+		for (const node of renderer.nodes ?? []) {
+			if (paths && !paths.has(node.id)) continue;
+			colored = true;
+
+			const color = this.plugin.styleCache.getStyle(node.id).color;
+			const rgb = color ? this.toRgbNumber(color) : null;
+
+			const fillColor = this.coloredNodes.get(node);
+			if (rgb !== null) {
+				const getFillColor = (): { a: number; rgb: number } => ({ a: 1, rgb });
+				if (fillColor) {
+					// Keep the fill color from before our first override
+					fillColor.override = getFillColor;
+					node.getFillColor = getFillColor;
+				} else {
+					this.coloredNodes.set(node, overrideProperty(node, "getFillColor", getFillColor));
+				}
+			} else if (fillColor) {
+				restoreProperty(node, "getFillColor", fillColor);
+				this.coloredNodes.delete(node);
+			}
+		}
+		if (colored) {
+			renderer.changed?.();
 		}
+	}
+
+	private toRgbNumber(color: string): number | null {
+		if (!this.rgbCache.has(color)) {
+			const rgb = resolveCssColor(color);
+			this.rgbCache.set(color, rgb ? (rgb[0] << 16) | (rgb[1] << 8) | rgb[2] : null);
+		}
+		return this.rgbCache.get(color)!;
+	}
+}
+
+// ============================================================================
+// Editor Extension
+// ============================================================================
+
+// Dispatched to editors to rebuild link decorations after styles change
+const refreshLinkDecorations = StateEffect.define<null>();
+
+// [[target#heading|alias]] (the optional leading ! marks an embed)
+const WIKILINK_PATTERN = /(!?)\[\[([^[\]\n]+?)\]\]/g;
+
+// [text](target) markdown links
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^[\]\n]*)\]\(([^()\s]+)\)/g;
+
+// Syntax node names (Obsidian joins token classes with `_`) for text that never renders links:
+// code blocks, inline code, math, comments and frontmatter
+const PLAIN_TEXT_NODE_PATTERN = /(?:^|_)(?:hmd-codeblock|inline-code|math|comment|hmd-frontmatter)(?:_|$)/i;
+
+/**
+ * Editor with its CodeMirror view
+ * cm is not in the official typings but exists at runtime
+ */
+interface EditorWithCM extends Editor {
+	cm?: EditorView;
+}
+
+/**
+ * Inline widget showing a linked note's icon before the link text
+ */
+class LinkIconWidget extends WidgetType {
+	constructor(private plugin: FrontmatterDecoratorPlugin, private iconId: string) {
+		super();
+	}
+
+	eq(other: LinkIconWidget): boolean {
+		return other.iconId === this.iconId;
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		// The editor may live in a pop-out window
+		const iconEl = view.dom.ownerDocument.createElement("span");
+		iconEl.classList.add("frontmatter-icon", "frontmatter-editor-link-icon");
+		this.plugin.styleApplicator.renderIcon(iconEl, this.iconId);
+		return iconEl;
+	}
 
-		// Find backlink items - try multiple selectors
-		const backlinkItems = document.querySelectorAll(
-			".backlink-pane .tree-item-self, " +
-			".backlink-pane .search-result-file-title, " +
-			"[data-type='backlink'] .tree-item-self, " +
-			"[data-type='backlink'] .search-result-file-title, " +
-			".backlink-pane .tree-item-inner"
-		);
+	ignoreEvent(): boolean {
+		return false;
+	}
+}
 
-		backlinkItems.forEach((item) => {
-			if (item instanceof HTMLElement) {
-				this.styleBacklinkItem(item);
+/**
+ * Build the CodeMirror extension that decorates internal links in Live Preview and Source mode
+ * Links are resolved relative to the note being edited
+ * The paths each editor currently decorates are recorded in linkedPaths
+ */
+function createEditorLinkExtension(
+	plugin: FrontmatterDecoratorPlugin,
+	linkedPaths: WeakMap<EditorView, Set<string>>
+): Extension {
+	const buildDecorations = (view: EditorView): DecorationSet => {
+		const sourcePath = view.state.field(editorInfoField, false)?.file?.path ?? "";
+		const ranges: Range<Decoration>[] = [];
+		const paths = new Set<string>();
+		linkedPaths.set(view, paths);
+		const tree = syntaxTree(view.state);
+
+		// Check the parser's view of a position, so link syntax inside code, comments and the like is skipped
+		const isPlainText = (pos: number): boolean => {
+			let node = tree.resolveInner(pos, 1);
+			for (;;) {
+				if (PLAIN_TEXT_NODE_PATTERN.test(node.name)) return true;
+				if (!node.parent) return false;
+				node = node.parent;
 			}
-		});
-	}
+		};
 
-	private styleBacklinkItem(element: HTMLElement): void {
-		// Skip if already styled
-		if (element.dataset.frontmatterStyled === "true") {
-			return;
-		}
+		const decorate = (linkpath: string, textFrom: number, textTo: number): void => {
+			const filePath = plugin.linkResolver.resolveLink(linkpath, sourcePath);
+			if (!filePath || textFrom >= textTo) return;
+			paths.add(filePath);
 
-		let filePath: string | null = null;
+			const style = plugin.styleCache.getStyle(filePath);
+			const { classes, properties } = plugin.styleApplicator.getTextStyleAttributes(style, "editorLinks");
 
-		// Try data-path attribute
-		if (element.dataset.path) {
-			filePath = element.dataset.path;
-		}
-		// Try to get from parent element
-		else {
-			const parent = element.closest("[data-path]");
-			if (parent instanceof HTMLElement && parent.dataset.path) {
-				filePath = parent.dataset.path;
+			if (style.icon && plugin.settings.showEditorLinkIcons) {
+				ranges.push(
+					Decoration.widget({ widget: new LinkIconWidget(plugin, style.icon), side: -1 }).range(textFrom)
+				);
 			}
-		}
-		// Try to get from text content
-		if (!filePath) {
-			const text = element.textContent?.trim();
-			if (text) {
-				filePath = this.resolveFilePath(text);
+
+			const css = Object.entries(properties)
+				.map(([property, value]) => `${property}: ${value}`)
+				.join("; ");
+			const attributes: Record<string, string> = { "data-frontmatter-path": filePath };
+			if (css) {
+				attributes.style = css;
 			}
-		}
+			ranges.push(
+				Decoration.mark({
+					class: classes.join(" "),
+					attributes,
+				}).range(textFrom, textTo)
+			);
+		};
 
-		if (filePath) {
-			element.dataset.frontmatterStyled = "true";
-			this.plugin.styleApplicator.applyStyle(element, filePath);
-		}
-	}
+		for (const { from, to } of view.visibleRanges) {
+			const text = view.state.sliceDoc(from, to);
 
-	private resolveFilePath(text: string): string | null {
-		// Try to find by path or basename
-		if (!text.endsWith(".md")) {
-			text = text + ".md";
-		}
+			for (const match of text.matchAll(WIKILINK_PATTERN)) {
+				if (match[1] || match.index === undefined) continue;
+				if (isPlainText(from + match.index + 2)) continue;
 
-		const file = this.plugin.app.vault.getAbstractFileByPath(text);
-		if (file instanceof TFile) {
-			return file.path;
-		}
+				const inner = match[2];
+				const linkpath = getLinkpath(inner);
+				if (!linkpath) continue;
+
+				// Decorate only the displayed text: the alias if there is one, else the whole target
+				const innerFrom = from + match.index + 2;
+				const pipe = inner.indexOf("|");
+				const textFrom = pipe === -1 ? innerFrom : innerFrom + pipe + 1;
+				decorate(linkpath, textFrom, innerFrom + inner.length);
+			}
+
+			for (const match of text.matchAll(MARKDOWN_LINK_PATTERN)) {
+				if (match[1] || match.index === undefined) continue;
+				if (isPlainText(from + match.index + 1)) continue;
+
+				const target = match[3];
+				// Skip external links such as https:// and mailto:
+				if (/^[a-z][a-z0-9+.-]*:/i.test(target)) continue;
 
-		// Try to find by basename
-		const files = this.plugin.app.vault.getMarkdownFiles();
-		const basename = text.replace(/\.md$/, "");
-		const matchingFile = files.find((f) => f.basename === basename);
-		if (matchingFile) {
-			return matchingFile.path;
+				let linkpath: string;
+				try {
+					linkpath = decodeURI(target.split("#")[0]);
+				} catch {
+					continue;
+				}
+				if (!linkpath) continue;
+
+				const textFrom = from + match.index + 1;
+				decorate(linkpath, textFrom, textFrom + match[2].length);
+			}
 		}
 
-		return null;
-	}
-}
+		return Decoration.set(ranges, true);
+	};
 
-/**
- * Observer for Obsidian Bases (database views)
- */
-class BasesObserver extends DOMObserver {
-	start(): void {
-		this.refresh();
+	return ViewPlugin.fromClass(
+		class {
+			decorations: DecorationSet;
 
-		// Watch for Bases view changes
-		this.plugin.registerEvent(
-			this.plugin.app.workspace.on("layout-change", () => {
-				this.refresh();
-			})
-		);
+			constructor(view: EditorView) {
+				this.decorations = buildDecorations(view);
+			}
 
-		this.plugin.registerEvent(
-			this.plugin.app.workspace.on("active-leaf-change", () => {
-				setTimeout(() => this.refresh(), 100);
-			})
-		);
+			update(update: ViewUpdate): void {
+				const refreshed = update.transactions.some((transaction) =>
+					transaction.effects.some((effect) => effect.is(refreshLinkDecorations))
+				);
+				// The parser works in the background, so code and comments may only be recognized later
+				const parsed = syntaxTree(update.startState) !== syntaxTree(update.state);
+				if (update.docChanged || update.viewportChanged || refreshed || parsed) {
+					this.decorations = buildDecorations(update.view);
+				}
+			}
+		},
+		{ decorations: (plugin) => plugin.decorations }
+	);
+}
 
-		// Observe DOM changes in workspace for Bases views
-		this.observer = new MutationObserver(() => {
-			this.refresh();
-		});
+/**
+ * Enables the editor link extension and rebuilds its decorations when styles change
+ */
+class EditorLinksObserver extends DOMObserver {
+	private extension: Extension | null = null;
+	// Paths of the links each editor decorates, so a style change only rebuilds editors linking to it
+	private linkedPaths: WeakMap<EditorView, Set<string>> = new WeakMap();
 
-		// Bases views can appear in any leaf
-		const workspace = document.querySelector(".workspace");
-		if (workspace) {
-			this.observer.observe(workspace, {
-				childList: true,
-				subtree: true,
-			});
-		}
+	start(): void {
+		this.extension = createEditorLinkExtension(this.plugin, this.linkedPaths);
+		this.plugin.editorExtensions.push(this.extension);
+		this.plugin.app.workspace.updateOptions();
 	}
 
 	stop(): void {
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observer = null;
+		if (this.extension) {
+			this.plugin.editorExtensions.remove(this.extension);
+			this.extension = null;
+			this.plugin.app.workspace.updateOptions();
 		}
 	}
 
 	refresh(): void {
-		// Bases uses various elements for file references
-		// Look for file links within Bases views
-		const basesViews = document.querySelectorAll('[data-type="bases"], .bases-view');
+		this.refreshEditors(() => true);
+	}
 
-		basesViews.forEach((view) => {
-			if (view instanceof HTMLElement) {
-				this.styleBasesView(view);
-			}
+	handleStyleChange(paths: Set<string>): void {
+		// Editor decorations live in CodeMirror, not in the dispatcher's index
+		this.refreshEditors((cm) => {
+			const linked = this.linkedPaths.get(cm);
+			return linked !== undefined && Array.from(paths).some((path) => linked.has(path));
 		});
+	}
 
-		// Also check for Bases table cells with file references
-		const basesFileLinks = document.querySelectorAll(
-			".bases-cell-file, .bases-file-link, .bases-row .internal-link"
-		);
-		basesFileLinks.forEach((link) => {
-			if (link instanceof HTMLElement) {
-				this.styleBasesLink(link);
+	private refreshEditors(filter: (cm: EditorView) => boolean): void {
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			if (leaf.view instanceof MarkdownView) {
+				const cm = (leaf.view.editor as EditorWithCM).cm;
+				if (cm && filter(cm)) {
+					cm.dispatch({ effects: refreshLinkDecorations.of(null) });
+				}
 			}
 		});
 	}
+}
 
-	private styleBasesView(view: HTMLElement): void {
-		// Find all file references within the Bases view
-		const fileLinks = view.querySelectorAll(
-			".internal-link, [data-path], .tree-item-self"
-		);
-		fileLinks.forEach((link) => {
-			if (link instanceof HTMLElement) {
-				this.styleBasesLink(link);
-			}
-		});
+// ============================================================================
+// Modals
+// ============================================================================
+
+/**
+ * An icon offered by the icon picker
+ */
+interface IconChoice {
+	id: string;
+	name: string;
+	provider: string;
+}
+
+// Sentinel choice that removes the icon field instead of setting it
+const REMOVE_ICON_CHOICE: IconChoice = { id: "", name: "Remove icon", provider: "" };
+
+// Notebook Navigator providers offered in the icon picker
+const EXTERNAL_ICON_PROVIDERS = ["phosphor", "simple-icons"];
+
+/**
+ * Fuzzy-search modal for picking an icon and writing it to each file's icon field
+ */
+class IconPickerModal extends FuzzySuggestModal<IconChoice> {
+	private plugin: FrontmatterDecoratorPlugin;
+	private files: TFile[];
+
+	constructor(plugin: FrontmatterDecoratorPlugin, files: TFile[]) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.files = files;
+		this.setPlaceholder("Search icons...");
 	}
 
-	private styleBasesLink(element: HTMLElement): void {
-		// Skip if already styled
-		if (element.dataset.frontmatterStyled === "true") {
-			return;
-		}
+	getItems(): IconChoice[] {
+		// Obsidian also registers its own non-Lucide icons; only offer the Lucide set
+		const choices: IconChoice[] = getIconIds()
+			.filter((id) => id.startsWith("lucide-"))
+			.map((id) => ({ id, name: id.slice("lucide-".length), provider: "Lucide" }));
 
-		let filePath: string | null = null;
+		return choices.concat(this.getExternalIcons());
+	}
 
-		// Try data-path attribute
-		if (element.dataset.path) {
-			filePath = element.dataset.path;
+	/**
+	 * Icons from Notebook Navigator's icon service (Phosphor, Simple Icons), if installed
+	 */
+	private getExternalIcons(): IconChoice[] {
+		const iconService = this.plugin.styleApplicator.getNotebookNavigator()?.externalIconController?.iconService;
+		if (typeof iconService?.getAllProviders !== "function") {
+			return [];
 		}
-		// Try href attribute
-		else if (element.getAttribute("href")) {
-			const href = element.getAttribute("href");
-			if (href) {
-				filePath = this.resolveFilePath(href);
+
+		const choices: IconChoice[] = [];
+		try {
+			for (const provider of iconService.getAllProviders()) {
+				if (!EXTERNAL_ICON_PROVIDERS.includes(provider.id) || typeof provider.getAll !== "function") {
+					continue;
+				}
+				for (const icon of provider.getAll()) {
+					choices.push({
+						id: `${provider.id}:${icon.id}`,
+						name: icon.displayName ?? icon.id,
+						provider: provider.name ?? provider.id,
+					});
+				}
 			}
+		} catch {
+			// Notebook Navigator API changed or isn't ready; offer Lucide only
 		}
-		// Try text content as file name
-		else if (element.textContent) {
-			const text = element.textContent.trim();
-			filePath = this.resolveFilePath(text);
-		}
+		return choices;
+	}
 
-		if (filePath) {
-			element.dataset.frontmatterStyled = "true";
-			this.plugin.styleApplicator.applyStyle(element, filePath);
-		}
+	getItemText(item: IconChoice): string {
+		return `${item.name} ${item.provider}`;
 	}
 
-	private resolveFilePath(linkText: string): string | null {
-		// Clean up the link text
-		let cleaned = linkText.replace(/^\[\[|\]\]$/g, "");
-		cleaned = cleaned.split("|")[0]; // Remove alias
-		cleaned = cleaned.split("#")[0]; // Remove heading anchor
+	getSuggestions(query: string): FuzzyMatch<IconChoice>[] {
+		const suggestions = super.getSuggestions(query);
 
-		// Try to find the file
-		if (!cleaned.endsWith(".md")) {
-			cleaned = cleaned + ".md";
+		// Always offer removal first when any of the files has an icon
+		const iconField = this.plugin.settings.iconField;
+		const hasIcon = this.files.some(
+			(file) => this.app.metadataCache.getFileCache(file)?.frontmatter?.[iconField] !== undefined
+		);
+		if (hasIcon) {
+			suggestions.unshift({ item: REMOVE_ICON_CHOICE, match: { score: 0, matches: [] } });
 		}
 
-		const file = this.plugin.app.vault.getAbstractFileByPath(cleaned);
-		if (file instanceof TFile) {
-			return file.path;
-		}
+		return suggestions;
+	}
 
-		// Try metadataCache lookup
-		const resolved = this.plugin.app.metadataCache.getFirstLinkpathDest(
-			linkText.replace(/^\[\[|\]\]$/g, "").split("|")[0].split("#")[0],
-			""
-		);
-		if (resolved instanceof TFile) {
-			return resolved.path;
+	renderSuggestion(match: FuzzyMatch<IconChoice>, el: HTMLElement): void {
+		el.addClass("frontmatter-icon-suggestion");
+
+		const iconEl = el.createSpan({ cls: "frontmatter-icon" });
+		if (match.item === REMOVE_ICON_CHOICE) {
+			setIcon(iconEl, "lucide-x");
+			el.createSpan({ text: match.item.name });
+			return;
 		}
 
-		return null;
+		this.plugin.styleApplicator.renderIcon(iconEl, match.item.id);
+		el.createSpan({ text: match.item.name });
+		el.createSpan({ cls: "frontmatter-icon-suggestion-provider", text: match.item.provider });
+	}
+
+	onChooseItem(item: IconChoice): void {
+		this.plugin
+			.updateFrontmatter(this.files, {
+				[this.plugin.settings.iconField]: item === REMOVE_ICON_CHOICE ? null : item.id,
+			})
+			.catch((error) => this.plugin.reportWriteError(error));
 	}
 }
 
+// Number of recently used colors remembered by the color picker
+const MAX_RECENT_COLORS = 10;
+
 /**
- * Observer for editor internal links
+ * Modal for picking a color (palette, recent or custom) and writing it to each file's color field
  */
-class EditorLinksObserver extends DOMObserver {
-	start(): void {
-		this.refresh();
+class ColorPickerModal extends Modal {
+	private plugin: FrontmatterDecoratorPlugin;
+	private files: TFile[];
+	private customColor = "";
 
-		// Refresh on active leaf change
-		this.plugin.registerEvent(
-			this.plugin.app.workspace.on("active-leaf-change", () => {
-				// Small delay to let the editor render
-				setTimeout(() => this.refresh(), 100);
-			})
-		);
+	constructor(plugin: FrontmatterDecoratorPlugin, files: TFile[]) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.files = files;
+	}
 
-		// Watch for editor content changes
-		this.observer = new MutationObserver(() => {
-			this.refresh();
-		});
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+		titleEl.setText(this.files.length === 1 ? "Set color" : `Set color for ${this.files.length} files`);
+
+		const palette = this.plugin.settings.palette.filter((entry) => entry.name && entry.color);
+		if (palette.length > 0) {
+			new Setting(contentEl).setName("Palette").setHeading();
+			// Write palette names rather than values so retheming the palette recolors these files
+			this.renderSwatches(
+				contentEl,
+				palette.map((entry) => ({ label: entry.name, color: entry.color, value: entry.name }))
+			);
+		}
 
-		const workspaceLeaves = document.querySelector(".workspace-leaf-content");
-		if (workspaceLeaves) {
-			this.observer.observe(workspaceLeaves, {
-				childList: true,
-				subtree: true,
-			});
+		const recent = this.plugin.settings.recentColors;
+		if (recent.length > 0) {
+			new Setting(contentEl).setName("Recent").setHeading();
+			this.renderSwatches(
+				contentEl,
+				recent.map((color) => ({ label: color, color: this.previewColor(color), value: color }))
+			);
 		}
+
+		let textInput: TextComponent | null = null;
+		new Setting(contentEl)
+			.setName("Custom color")
+			.setDesc("Any CSS color or palette name")
+			.addColorPicker((picker) =>
+				picker.onChange((value) => {
+					this.customColor = value;
+					textInput?.setValue(value);
+				})
+			)
+			.addText((text) => {
+				textInput = text;
+				text
+					.setPlaceholder("#0ea5e9")
+					.onChange((value) => {
+						this.customColor = value.trim();
+					});
+			})
+			.addButton((button) =>
+				button
+					.setButtonText("Apply")
+					.setCta()
+					.onClick(() => {
+						if (this.customColor) {
+							this.choose(this.customColor);
+						}
+					})
+			);
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Remove color")
+					.onClick(() => this.choose(null))
+			);
 	}
 
-	stop(): void {
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observer = null;
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render a row of clickable color swatches
+	 */
+	private renderSwatches(containerEl: HTMLElement, swatches: { label: string; color: string; value: string }[]): void {
+		const row = containerEl.createDiv({ cls: "frontmatter-swatch-row" });
+		for (const swatch of swatches) {
+			const button = row.createEl("button", {
+				cls: "frontmatter-swatch",
+				attr: { "aria-label": swatch.label },
+			});
+			button.style.setProperty("--frontmatter-color", swatch.color);
+			button.addEventListener("click", () => this.choose(swatch.value));
 		}
 	}
 
-	refresh(): void {
-		// Find all internal links in the editor
-		const internalLinks = document.querySelectorAll(
-			".cm-hmd-internal-link, .internal-link"
+	/**
+	 * Resolve palette names so recent swatches preview the right color
+	 */
+	private previewColor(value: string): string {
+		const entry = this.plugin.settings.palette.find(
+			(paletteColor) => paletteColor.name.toLowerCase() === value.toLowerCase()
 		);
-		internalLinks.forEach((link) => {
-			if (link instanceof HTMLElement) {
-				this.styleInternalLink(link);
-			}
-		});
+		return entry?.color || value;
 	}
 
-	private styleInternalLink(linkElement: HTMLElement): void {
-		// Extract the link target
-		let linkTarget =
-			linkElement.dataset.href ||
-			linkElement.getAttribute("href") ||
-			linkElement.textContent;
-
-		if (!linkTarget) return;
-
-		// Clean up the link target
-		linkTarget = linkTarget.replace(/^\[\[|\]\]$/g, ""); // Remove [[ and ]]
-		linkTarget = linkTarget.split("|")[0]; // Remove alias
-		linkTarget = linkTarget.split("#")[0]; // Remove heading anchor
-
-		// Find the file
-		const file = this.plugin.app.metadataCache.getFirstLinkpathDest(
-			linkTarget,
-			""
-		);
-		if (file instanceof TFile) {
-			const style = this.plugin.styleCache.getStyle(file.path);
-			if (style.color) {
-				linkElement.style.setProperty("--frontmatter-color", style.color);
-				linkElement.classList.add("has-frontmatter-color");
-			}
+	/**
+	 * Write the chosen color (or remove it) and close
+	 */
+	private choose(color: string | null): void {
+		this.close();
+		this.plugin
+			.updateFrontmatter(this.files, { [this.plugin.settings.colorField]: color })
+			.catch((error) => this.plugin.reportWriteError(error));
+		if (color) {
+			void this.plugin.addRecentColor(color);
 		}
 	}
 }
@@ -1063,25 +3326,85 @@ export default class FrontmatterDecoratorPlugin extends Plugin {
 	settings: FrontmatterDecoratorSettings;
 	styleCache: FileStyleCache;
 	styleApplicator: StyleApplicator;
-
-	private observers: DOMObserver[] = [];
+	styleDispatcher: StyleDispatcher;
+	linkResolver: LinkResolver;
+	// Editor extensions registered with Obsidian; modified in place, then applied with updateOptions()
+	editorExtensions: Extension[] = [];
+
+	// Running observers, keyed by what they decorate
+	private observers: Map<string, DOMObserver> = new Map();
+	// Set once the layout is ready and observers may run
+	private observersReady = false;
+	// Set on unload, so a start still pending from startup never runs
+	private unloaded = false;
+	// Documents of the main window and every open pop-out window
+	private windowDocuments: Set<Document> = new Set([document]);
+	// Set while reading view decoration is enabled; used by the markdown post-processor
+	private readingViewLinks: ReadingViewLinksObserver | null = null;
+	// Set while note title decoration is enabled; used to pick up hover popovers
+	private noteTitles: NoteTitleObserver | null = null;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
 		// Initialize components
+		this.linkResolver = new LinkResolver(this);
 		this.styleCache = new FileStyleCache(this);
 		this.styleApplicator = new StyleApplicator(this);
+		this.styleDispatcher = new StyleDispatcher(this);
+
+		this.registerEditorExtension(this.editorExtensions);
+
+		// Decorate links and embeds as markdown renders, resolved against the section's source note
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			this.readingViewLinks?.decorate(el, ctx.sourcePath);
+
+			// Sections are attached after processing; once they are, check for a hover popover
+			if (this.noteTitles) {
+				requestAnimationFrame(() => {
+					const popover = el.closest(".hover-popover");
+					// Sections of notes embedded in the preview have their own source path
+					const embed = el.closest(".internal-embed");
+					if (popover?.instanceOf(HTMLElement) && !(embed && popover.contains(embed))) {
+						this.noteTitles?.decoratePopover(popover, ctx.sourcePath);
+					}
+				});
+			}
+		});
 
 		// Initialize observers based on settings
 		this.initializeObservers();
 
+		// Decorate pop-out windows as they open, and let go of them when they close
+		this.registerEvent(
+			this.app.workspace.on("window-open", (_workspaceWindow, win) => {
+				this.windowDocuments.add(win.document);
+				this.styleDispatcher.observe(win.document);
+				this.observers.forEach((observer) => observer.attachWindow(win.document));
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("window-close", (_workspaceWindow, win) => {
+				this.windowDocuments.delete(win.document);
+				this.styleDispatcher.unobserve(win.document);
+				this.observers.forEach((observer) => observer.detachWindow(win.document));
+			})
+		);
+
 		// Register metadata change handler
 		this.registerEvent(
 			this.app.metadataCache.on("changed", (file) => {
 				if (file instanceof TFile) {
-					this.styleCache.invalidate(file.path);
-					this.refreshAllObservers();
+					// Aliases may have changed
+					this.linkResolver.indexFile(file);
+
+					// Only the elements of this file and of files deriving their style from it change,
+					// and only if its style did
+					const paths = this.styleCache.update(file);
+					if (paths.size > 0) {
+						this.styleDispatcher.restyle(paths);
+					}
 				}
 			})
 		);
@@ -1090,9 +3413,31 @@ export default class FrontmatterDecoratorPlugin extends Plugin {
 		this.registerEvent(
 			this.app.vault.on("rename", (file, oldPath) => {
 				if (file instanceof TFile) {
-					this.styleCache.invalidate(oldPath);
-					this.styleCache.invalidate(file.path);
-					this.refreshAllObservers();
+					this.linkResolver.renameFile(file);
+					// Notes linking to either path as a parent, and folders using it as their folder note
+					const paths = this.styleCache.invalidate(oldPath);
+					this.styleCache.invalidate(file.path, paths);
+					this.styleDispatcher.restyle(this.styleCache.invalidateLinksTo(file, paths));
+				} else {
+					// A renamed folder changes the path of everything inside it
+					this.linkResolver.clear();
+					this.styleCache.clear();
+					this.styleDispatcher.restyleAll();
+				}
+				this.refreshAllObservers();
+			})
+		);
+
+		// Register file create handler
+		this.registerEvent(
+			this.app.vault.on("create", (file) => {
+				if (file instanceof TFile) {
+					this.linkResolver.indexFile(file);
+					// Parent links naming the new file may resolve to it now
+					const paths = this.styleCache.invalidateLinksTo(file);
+					if (paths.size > 0) {
+						this.styleDispatcher.restyle(paths);
+					}
 				}
 			})
 		);
@@ -1101,43 +3446,187 @@ export default class FrontmatterDecoratorPlugin extends Plugin {
 		this.registerEvent(
 			this.app.vault.on("delete", (file) => {
 				if (file instanceof TFile) {
-					this.styleCache.invalidate(file.path);
+					this.linkResolver.removeFile(file);
+				} else {
+					this.linkResolver.clear();
+				}
+				// Styles derived from the deleted file (parent notes, folder notes) fall back to something else
+				this.styleDispatcher.restyle(this.styleCache.invalidate(file.path));
+			})
+		);
+
+		// Theme-aware and contrast-corrected colors depend on the active theme
+		this.registerEvent(
+			this.app.workspace.on("css-change", () => {
+				this.styleCache.clear();
+				this.refreshAllStyles();
+			})
+		);
+
+		// Add settings tab
+		this.addSettingTab(new FrontmatterDecoratorSettingTab(this.app, this));
+
+		// Add command to refresh styles
+		this.addCommand({
+			id: "refresh-frontmatter-styles",
+			name: "Refresh frontmatter styles",
+			callback: () => {
+				this.styleCache.clear();
+				this.refreshAllStyles();
+			},
+		});
+
+		// Add command to pick an icon for the active note
+		this.addCommand({
+			id: "set-icon",
+			name: "Set icon for current file",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") {
+					return false;
+				}
+				if (!checking) {
+					new IconPickerModal(this, [file]).open();
+				}
+				return true;
+			},
+		});
+
+		// Add command to pick a color for the active note
+		this.addCommand({
+			id: "set-color",
+			name: "Set color for current file",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") {
+					return false;
+				}
+				if (!checking) {
+					new ColorPickerModal(this, [file]).open();
+				}
+				return true;
+			},
+		});
+
+		// Add decoration actions to the file explorer context menus
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (file instanceof TFile && file.extension === "md") {
+					this.addDecorationMenuItems(menu, [file]);
 				}
 			})
 		);
 
-		// Add settings tab
-		this.addSettingTab(new FrontmatterDecoratorSettingTab(this.app, this));
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu, files) => {
+				const notes = files.filter(
+					(file): file is TFile => file instanceof TFile && file.extension === "md"
+				);
+				if (notes.length > 0) {
+					this.addDecorationMenuItems(menu, notes);
+				}
+			})
+		);
+	}
+
+	onunload(): void {
+		this.unloaded = true;
+
+		// Stop all observers, undoing their decorations
+		this.observers.forEach((observer) => observer.unload());
+		this.observers.clear();
+		this.styleDispatcher.stop();
+		this.readingViewLinks = null;
+		this.noteTitles = null;
+	}
+
+	/**
+	 * Add set color / set icon / clear decoration items to a file context menu
+	 */
+	private addDecorationMenuItems(menu: Menu, files: TFile[]): void {
+		menu.addItem((item) =>
+			item
+				.setTitle("Set color")
+				.setIcon("palette")
+				.onClick(() => new ColorPickerModal(this, files).open())
+		);
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Set icon")
+				.setIcon("smile")
+				.onClick(() => new IconPickerModal(this, files).open())
+		);
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Clear decoration")
+				.setIcon("eraser")
+				.onClick(() => {
+					this.updateFrontmatter(files, {
+						[this.settings.colorField]: null,
+						[this.settings.iconField]: null,
+					}).catch((error) => this.reportWriteError(error));
+				})
+		);
+	}
+
+	/**
+	 * Set (or, for null values, delete) frontmatter fields on each file
+	 */
+	async updateFrontmatter(files: TFile[], updates: Record<string, string | null>): Promise<void> {
+		await Promise.all(
+			files.map((file) =>
+				this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+					for (const [field, value] of Object.entries(updates)) {
+						if (value === null) {
+							delete frontmatter[field];
+						} else {
+							frontmatter[field] = value;
+						}
+					}
+				})
+			)
+		);
+	}
 
-		// Add command to refresh styles
-		this.addCommand({
-			id: "refresh-frontmatter-styles",
-			name: "Refresh frontmatter styles",
-			callback: () => {
-				this.styleCache.clear();
-				this.refreshAllObservers();
-			},
-		});
+	/**
+	 * Tell the user a frontmatter write failed, e.g. because a file's YAML is invalid
+	 */
+	reportWriteError(error: unknown): void {
+		console.error("Frontmatter Decorator: failed to update frontmatter", error);
+		new Notice("Couldn't update frontmatter. See the developer console for details.");
 	}
 
-	onunload(): void {
-		// Stop all observers
-		this.observers.forEach((observer) => observer.stop());
-		this.observers = [];
+	/**
+	 * Remember a color for the color picker's recent swatches
+	 */
+	async addRecentColor(color: string): Promise<void> {
+		const recent = this.settings.recentColors.filter((existing) => existing !== color);
+		recent.unshift(color);
+		this.settings.recentColors = recent.slice(0, MAX_RECENT_COLORS);
+		// Save directly: recent colors don't affect styling, so observers needn't restart
+		await this.saveData(this.settings);
 	}
 
 	async loadSettings(): Promise<void> {
+		// Clone defaults so list settings (rules, etc.) never mutate DEFAULT_SETTINGS
 		this.settings = Object.assign(
 			{},
-			DEFAULT_SETTINGS,
+			structuredClone(DEFAULT_SETTINGS),
 			await this.loadData()
 		);
+		// Keep defaults for locations added since the settings were saved
+		this.settings.displayModes = Object.assign(
+			structuredClone(DEFAULT_SETTINGS.displayModes),
+			this.settings.displayModes
+		);
 	}
 
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
-		// Reinitialize observers when settings change
-		this.reinitializeObservers();
+		// Apply settings changes live
+		this.applySettings();
 	}
 
 	private initializeObservers(): void {
@@ -1145,81 +3634,138 @@ export default class FrontmatterDecoratorPlugin extends Plugin {
 		this.app.workspace.onLayoutReady(() => {
 			// Check if metadata cache is already resolved
 			if (this.app.metadataCache.resolvedLinks) {
-				// Small delay to ensure DOM is fully rendered
-				setTimeout(() => this.startObservers(), 500);
+				this.scheduleStartObservers();
 			} else {
 				// Wait for metadata cache to be fully resolved
 				const resolveRef = this.app.metadataCache.on("resolved", () => {
 					this.app.metadataCache.offref(resolveRef);
-					// Small delay to ensure DOM is fully rendered
-					setTimeout(() => this.startObservers(), 500);
+					this.scheduleStartObservers();
 				});
+				this.registerEvent(resolveRef);
 			}
 		});
 	}
 
-	private startObservers(): void {
-		if (this.settings.enableFileExplorer) {
-			const fileExplorerObserver = new FileExplorerObserver(this);
-			fileExplorerObserver.start();
-			this.observers.push(fileExplorerObserver);
-		}
+	/**
+	 * Start observers after a small delay to ensure the DOM is fully rendered
+	 * Unloading first cancels the start
+	 */
+	private scheduleStartObservers(): void {
+		if (this.unloaded) return;
 
-		if (this.settings.enableTabHeader) {
-			const tabHeaderObserver = new TabHeaderObserver(this);
-			tabHeaderObserver.start();
-			this.observers.push(tabHeaderObserver);
-		}
+		const timer = window.setTimeout(() => this.startObservers(), 500);
+		this.register(() => window.clearTimeout(timer));
+	}
 
-		if (this.settings.enableQuickSwitcher || this.settings.enableSuggester) {
-			const suggesterObserver = new SuggesterObserver(this);
-			suggesterObserver.start();
-			this.observers.push(suggesterObserver);
-		}
+	/**
+	 * Documents of the main window and every open pop-out window
+	 */
+	getDocuments(): Document[] {
+		return Array.from(this.windowDocuments);
+	}
 
-		if (this.settings.enableBacklinks) {
-			const backlinksObserver = new BacklinksObserver(this);
-			backlinksObserver.start();
-			this.observers.push(backlinksObserver);
-		}
+	private startObservers(): void {
+		if (this.unloaded) return;
 
-		if (this.settings.enableBases) {
-			const basesObserver = new BasesObserver(this);
-			basesObserver.start();
-			this.observers.push(basesObserver);
-		}
+		// Pick up pop-out windows that were open before the plugin loaded
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			this.windowDocuments.add(leaf.view.containerEl.ownerDocument);
+		});
 
-		if (this.settings.enableEditorLinks) {
-			const editorLinksObserver = new EditorLinksObserver(this);
-			editorLinksObserver.start();
-			this.observers.push(editorLinksObserver);
-		}
+		this.observersReady = true;
+		this.syncObservers();
+
+		// Route DOM changes and style changes to the observers
+		this.styleDispatcher.start(this.observers);
 
 		// Initial refresh to apply styles
 		this.refreshAllObservers();
 	}
 
-	private reinitializeObservers(): void {
-		// Stop existing observers
-		this.observers.forEach((observer) => observer.stop());
-		this.observers = [];
+	/**
+	 * Start observers for newly enabled locations and stop (undoing their decorations) those turned off
+	 */
+	private syncObservers(): void {
+		const locations: [boolean, string, () => DOMObserver][] = [
+			[this.settings.enableFileExplorer, "fileExplorer", () => new FileExplorerObserver(this)],
+			[this.settings.enableTabHeader, "tabHeader", () => new TabHeaderObserver(this)],
+			[this.settings.enableNoteTitles, "noteTitle", () => new NoteTitleObserver(this)],
+			[this.settings.enableQuickSwitcher, "quickSwitcher", () => new QuickSwitcherObserver(this)],
+			[this.settings.enableSuggester, "linkSuggester", () => new LinkSuggesterObserver(this)],
+			[this.settings.enableBacklinks, "backlinks", () => new BacklinksObserver(this)],
+			[this.settings.enableSearch, "search", () => new SearchObserver(this)],
+			[this.settings.enableOutgoingLinks, "outgoingLinks", () => new OutgoingLinksObserver(this)],
+			[this.settings.enableBookmarks, "bookmarks", () => new BookmarksObserver(this)],
+			[this.settings.enableRecentFiles, "recentFiles", () => new RecentFilesObserver(this)],
+			[this.settings.enableBases, "bases", () => new BasesObserver(this)],
+			[this.settings.enableCanvas, "canvas", () => new CanvasObserver(this)],
+			[this.settings.enableGraph, "graph", () => new GraphObserver(this)],
+			[this.settings.enableEditorLinks, "editorLinks", () => new EditorLinksObserver(this)],
+			[this.settings.enableEditorLinks, "readingViewLinks", () => new ReadingViewLinksObserver(this)],
+		];
+
+		for (const [enabled, key, create] of locations) {
+			const running = this.observers.get(key);
+			if (enabled && !running) {
+				const observer = create();
+				this.observers.set(key, observer);
+				observer.load();
+			} else if (!enabled && running) {
+				running.unload();
+				this.observers.delete(key);
+			}
+		}
 
-		// Clear cache
-		this.styleCache.clear();
+		const readingViewLinks = this.observers.get("readingViewLinks");
+		this.readingViewLinks = readingViewLinks instanceof ReadingViewLinksObserver ? readingViewLinks : null;
+		const noteTitles = this.observers.get("noteTitle");
+		this.noteTitles = noteTitles instanceof NoteTitleObserver ? noteTitles : null;
+	}
 
-		// Start new observers
-		this.initializeObservers();
+	/**
+	 * Apply changed settings to the running observers without restarting them
+	 */
+	private applySettings(): void {
+		// Observers start once the layout is ready and pick up the settings then
+		if (!this.observersReady) return;
+
+		// Field names, rules, palette and display modes all feed into computed styles
+		this.styleCache.clear();
+		this.syncObservers();
+		this.refreshAllStyles();
 	}
 
 	private refreshAllObservers(): void {
 		this.observers.forEach((observer) => observer.refresh());
 	}
+
+	/**
+	 * Re-style everything after the style cache was cleared: what the observers find in the DOM, and
+	 * tracked elements their queries don't reach (hover popover links, suggestions, ...)
+	 */
+	private refreshAllStyles(): void {
+		this.refreshAllObservers();
+		this.styleDispatcher.restyleAll();
+	}
 }
 
 // ============================================================================
 // Settings Tab
 // ============================================================================
 
+/**
+ * Settings that hold a frontmatter field name
+ */
+type FieldSettingKey =
+	| "colorLightField"
+	| "colorDarkField"
+	| "backgroundField"
+	| "boldField"
+	| "italicField"
+	| "strikethroughField"
+	| "opacityField"
+	| "classField";
+
 class FrontmatterDecoratorSettingTab extends PluginSettingTab {
 	plugin: FrontmatterDecoratorPlugin;
 
@@ -1259,6 +3805,111 @@ class FrontmatterDecoratorSettingTab extends PluginSettingTab {
 					})
 			);
 
+		this.addFieldSetting(containerEl, "Light theme color field", "The frontmatter field name for a color used only in light mode", "colorLightField", "Color-light");
+		this.addFieldSetting(containerEl, "Dark theme color field", "The frontmatter field name for a color used only in dark mode", "colorDarkField", "Color-dark");
+		this.addFieldSetting(containerEl, "Background field", "The frontmatter field name to use for background highlight colors", "backgroundField", "Background");
+		this.addFieldSetting(containerEl, "Bold field", "The frontmatter field name that makes names bold (true/false)", "boldField", "Bold");
+		this.addFieldSetting(containerEl, "Italic field", "The frontmatter field name that makes names italic (true/false)", "italicField", "Italic");
+		this.addFieldSetting(containerEl, "Strikethrough field", "The frontmatter field name that strikes names through (true/false), e.g. for archived notes", "strikethroughField", "Strikethrough");
+		this.addFieldSetting(containerEl, "Opacity field", "The frontmatter field name used to dim names (0-1 or a percentage)", "opacityField", "Opacity");
+		this.addFieldSetting(containerEl, "CSS class field", "The frontmatter field whose values are added as CSS classes wherever the note is decorated", "classField", "Decorator-class");
+
+		new Setting(containerEl)
+			.setName("Correct low contrast colors")
+			.setDesc("Lighten or darken colors that are hard to read against the current theme's background")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.contrastCorrection)
+					.onChange(async (value) => {
+						this.plugin.settings.contrastCorrection = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Minimum contrast ratio")
+			.setDesc("WCAG contrast ratio colors must reach when contrast correction is on (4.5 is the AA standard for text)")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1.5, 7, 0.5)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.minContrastRatio)
+					.onChange(async (value) => {
+						this.plugin.settings.minContrastRatio = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.displayPalette(containerEl);
+
+		// Folders section
+		new Setting(containerEl)
+			.setName("Folders")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Folder note name")
+			.setDesc("Folders take their style from this note inside them. Leave empty to use a note named after the folder (Folder/Folder.md).")
+			.addText((text) =>
+				text
+					.setPlaceholder("_folder")
+					.setValue(this.plugin.settings.folderNoteName)
+					.onChange(async (value) => {
+						this.plugin.settings.folderNoteName = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Inherit folder styles")
+			.setDesc("Notes and folders without a color or icon of their own use the nearest styled parent folder's")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.inheritFolderStyle)
+					.onChange(async (value) => {
+						this.plugin.settings.inheritFolderStyle = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Parent notes section
+		new Setting(containerEl)
+			.setName("Parent notes")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Parent link properties")
+			.setDesc("Comma-separated properties that link to a parent note, e.g. up, project. Notes without a color or icon of their own use their parent's.")
+			.addText((text) =>
+				text
+					.setPlaceholder("up, project")
+					.setValue(this.plugin.settings.parentLinkFields.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.parentLinkFields = value
+							.split(",")
+							.map((field) => field.trim())
+							.filter((field) => field.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Parent link depth")
+			.setDesc("How many parent links to follow in a chain (child, parent, grandparent, ...)")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 10, 1)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.parentLinkDepth)
+					.onChange(async (value) => {
+						this.plugin.settings.parentLinkDepth = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.displayValueMappings(containerEl);
+		this.displayRules(containerEl);
+
 		// Enabled locations section
 		new Setting(containerEl)
 			.setName("Enabled locations")
@@ -1276,6 +3927,18 @@ class FrontmatterDecoratorSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Folders")
+			.setDesc("Apply styles to folders in the file explorer")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableFolders)
+					.onChange(async (value) => {
+						this.plugin.settings.enableFolders = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Tab headers")
 			.setDesc("Apply styles to tab headers")
@@ -1288,6 +3951,18 @@ class FrontmatterDecoratorSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Note titles")
+			.setDesc("Apply styles to the view header title, inline title and hover preview titles")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableNoteTitles)
+					.onChange(async (value) => {
+						this.plugin.settings.enableNoteTitles = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Quick switcher")
 			.setDesc("Apply styles in the quick switcher (Ctrl/Cmd+O)")
@@ -1324,6 +3999,54 @@ class FrontmatterDecoratorSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Search results")
+			.setDesc("Apply styles to files in the search results pane")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableSearch)
+					.onChange(async (value) => {
+						this.plugin.settings.enableSearch = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Outgoing links pane")
+			.setDesc("Apply styles in the outgoing links pane")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableOutgoingLinks)
+					.onChange(async (value) => {
+						this.plugin.settings.enableOutgoingLinks = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Bookmarks")
+			.setDesc("Apply styles to bookmarked files and folders")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableBookmarks)
+					.onChange(async (value) => {
+						this.plugin.settings.enableBookmarks = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Recent files")
+			.setDesc("Apply styles in the Recent Files plugin's pane")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableRecentFiles)
+					.onChange(async (value) => {
+						this.plugin.settings.enableRecentFiles = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Bases")
 			.setDesc("Apply styles to file references in bases views")
@@ -1336,6 +4059,42 @@ class FrontmatterDecoratorSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Canvas")
+			.setDesc("Apply styles to file cards on canvases")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableCanvas)
+					.onChange(async (value) => {
+						this.plugin.settings.enableCanvas = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Canvas card borders")
+			.setDesc("Color the border of canvas file cards, in addition to their label")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.canvasNodeBorder)
+					.onChange(async (value) => {
+						this.plugin.settings.canvasNodeBorder = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Graph view")
+			.setDesc("Tint nodes in the graph and local graph views with each note's color")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableGraph)
+					.onChange(async (value) => {
+						this.plugin.settings.enableGraph = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Editor links")
 			.setDesc("Apply styles to internal links in the editor")
@@ -1347,5 +4106,351 @@ class FrontmatterDecoratorSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Editor link icons")
+			.setDesc("Show the linked note's icon before internal links in the editor")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showEditorLinkIcons)
+					.onChange(async (value) => {
+						this.plugin.settings.showEditorLinkIcons = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.displayLocationModes(containerEl);
+	}
+
+	/**
+	 * Render the per-location display mode dropdowns
+	 */
+	private displayLocationModes(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Display modes")
+			.setDesc("How colors are shown in each location. Colored text can be hard to read in some themes.")
+			.setHeading();
+
+		const locations: { location: DecoratorLocation; name: string }[] = [
+			{ location: "fileExplorer", name: "File explorer" },
+			{ location: "tabHeader", name: "Tab headers" },
+			{ location: "noteTitle", name: "Note titles" },
+			{ location: "quickSwitcher", name: "Quick switcher" },
+			{ location: "linkSuggester", name: "Link suggester" },
+			{ location: "backlinks", name: "Backlinks pane" },
+			{ location: "search", name: "Search results" },
+			{ location: "outgoingLinks", name: "Outgoing links pane" },
+			{ location: "bookmarks", name: "Bookmarks" },
+			{ location: "recentFiles", name: "Recent files" },
+			{ location: "bases", name: "Bases" },
+			{ location: "canvas", name: "Canvas" },
+			{ location: "editorLinks", name: "Editor links" },
+		];
+
+		for (const { location, name } of locations) {
+			// The accent underline only exists for tab headers
+			const options: Record<string, string> = {};
+			for (const [mode, label] of Object.entries(DISPLAY_MODES)) {
+				if (mode !== "underline" || location === "tabHeader") {
+					options[mode] = label;
+				}
+			}
+
+			new Setting(containerEl)
+				.setName(name)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(options)
+						.setValue(this.plugin.settings.displayModes[location] ?? "text")
+						.onChange(async (value) => {
+							this.plugin.settings.displayModes[location] = value as DisplayMode;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+	}
+
+	/**
+	 * Add a text setting for one of the frontmatter field names
+	 */
+	private addFieldSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		key: FieldSettingKey,
+		placeholder: string
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) =>
+				text
+					.setPlaceholder(placeholder)
+					.setValue(this.plugin.settings[key])
+					.onChange(async (value) => {
+						this.plugin.settings[key] = value || DEFAULT_SETTINGS[key];
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	/**
+	 * Render the named color palette editor
+	 */
+	private displayPalette(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Color palette")
+			.setDesc("Named colors that frontmatter, mappings and rules can use, e.g. color: work. Values can be any CSS color, including theme variables like var(--color-red).")
+			.setHeading();
+
+		const palette = this.plugin.settings.palette;
+
+		palette.forEach((entry, index) => {
+			const setting = new Setting(containerEl);
+
+			const swatch = setting.controlEl.createSpan({ cls: "frontmatter-palette-swatch" });
+			swatch.style.setProperty("--frontmatter-color", entry.color);
+
+			setting
+				.addText((text) =>
+					text
+						.setPlaceholder("Name")
+						.setValue(entry.name)
+						.onChange(async (value) => {
+							entry.name = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("#0ea5e9")
+						.setValue(entry.color)
+						.onChange(async (value) => {
+							entry.color = value.trim();
+							swatch.style.setProperty("--frontmatter-color", entry.color);
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Delete color")
+						.onClick(async () => {
+							palette.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Add color")
+					.onClick(async () => {
+						palette.push({ name: "", color: "" });
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+	}
+
+	/**
+	 * Render the ordered list of property value mappings
+	 */
+	private displayValueMappings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Value mappings")
+			.setDesc("Style notes by the value of a property, e.g. status equals done. The color and icon fields take precedence over mappings.")
+			.setHeading();
+
+		const mappings = this.plugin.settings.valueMappings;
+
+		mappings.forEach((mapping, index) => {
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("Property")
+						.setValue(mapping.property)
+						.onChange(async (value) => {
+							mapping.property = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Value")
+						.setValue(mapping.value)
+						.onChange(async (value) => {
+							mapping.value = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Color")
+						.setValue(mapping.color)
+						.onChange(async (value) => {
+							mapping.color = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Icon")
+						.setValue(mapping.icon)
+						.onChange(async (value) => {
+							mapping.icon = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							if (index === 0) return;
+							[mappings[index - 1], mappings[index]] = [mappings[index], mappings[index - 1]];
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === mappings.length - 1)
+						.onClick(async () => {
+							if (index === mappings.length - 1) return;
+							[mappings[index], mappings[index + 1]] = [mappings[index + 1], mappings[index]];
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Delete mapping")
+						.onClick(async () => {
+							mappings.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Add mapping")
+					.onClick(async () => {
+						mappings.push({ property: "", value: "", color: "", icon: "" });
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+	}
+
+	/**
+	 * Render the ordered list of style rules
+	 */
+	private displayRules(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Style rules")
+			.setDesc("Rules are checked in order. Frontmatter values and value mappings always take precedence over rules.")
+			.setHeading();
+
+		const rules = this.plugin.settings.rules;
+
+		rules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions({
+							tag: "Tag",
+							folder: "Folder",
+							glob: "Path glob",
+							regex: "File name regex",
+						})
+						.setValue(rule.match)
+						.onChange(async (value) => {
+							rule.match = value as StyleRuleMatch;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Pattern")
+						.setValue(rule.pattern)
+						.onChange(async (value) => {
+							rule.pattern = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Color")
+						.setValue(rule.color)
+						.onChange(async (value) => {
+							rule.color = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Icon")
+						.setValue(rule.icon)
+						.onChange(async (value) => {
+							rule.icon = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							if (index === 0) return;
+							[rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === rules.length - 1)
+						.onClick(async () => {
+							if (index === rules.length - 1) return;
+							[rules[index], rules[index + 1]] = [rules[index + 1], rules[index]];
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Delete rule")
+						.onClick(async () => {
+							rules.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Add rule")
+					.onClick(async () => {
+						rules.push({ match: "tag", pattern: "", color: "", icon: "" });
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
 	}
 }